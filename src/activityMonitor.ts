@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { Clock, TimerHandle } from './types';
+import { SystemClock } from './clock';
+
+/**
+ * Detects when the user has stopped working in VS Code and when they come back
+ * Activity is typing, moving the cursor, switching editors or terminals and focusing a window;
+ * the last activity is shared through global state so that activity in any window counts
+ *
+ * Events:
+ * - 'idle' (lastActivity: Date) when there was no activity in any window for the threshold
+ * - 'active' (idleSince: Date) on the first activity in this window after going idle
+ */
+export class ActivityMonitor extends EventEmitter {
+    private static readonly LAST_ACTIVITY_KEY = 'workSessionManager.lastActivity';
+    private static readonly CHECK_INTERVAL = 5000; // 5 seconds
+    private static readonly SHARE_INTERVAL = 5000; // activity is shared at most this often
+
+    private context: vscode.ExtensionContext;
+    private clock: Clock;
+    private thresholdMs: number = 5 * 60 * 1000;
+    private lastActivity: number;
+    private lastShared: number = 0;
+    private idleSince: number | null = null;
+    private intervalId: TimerHandle | null = null;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(context: vscode.ExtensionContext, clock: Clock = new SystemClock()) {
+        super();
+        this.context = context;
+        this.clock = clock;
+        this.lastActivity = clock.now().getTime();
+    }
+
+    /**
+     * Starts watching for activity, reporting idleness after the given number of seconds
+     * Calling it again while started only changes the threshold
+     */
+    public start(thresholdSeconds: number): void {
+        this.thresholdMs = thresholdSeconds * 1000;
+        if (this.intervalId) {
+            return;
+        }
+
+        this.lastActivity = this.clock.now().getTime();
+        this.idleSince = null;
+        this.subscriptions = this.subscribeToActivity();
+        this.intervalId = this.clock.setInterval(() => {
+            this.checkIdle();
+        }, ActivityMonitor.CHECK_INTERVAL);
+    }
+
+    /**
+     * Stops watching for activity
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            this.clock.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions = [];
+        this.idleSince = null;
+    }
+
+    /**
+     * Checks if the monitor is watching for activity
+     */
+    public isStarted(): boolean {
+        return this.intervalId !== null;
+    }
+
+    /**
+     * Checks if the user is currently considered idle
+     */
+    public isIdle(): boolean {
+        return this.idleSince !== null;
+    }
+
+    /**
+     * Records activity in this window, ending an idle period
+     */
+    public recordActivity(): void {
+        const now = this.clock.now().getTime();
+        this.lastActivity = now;
+
+        if (now - this.lastShared >= ActivityMonitor.SHARE_INTERVAL || this.idleSince !== null) {
+            this.lastShared = now;
+            this.context.globalState.update(ActivityMonitor.LAST_ACTIVITY_KEY, now);
+        }
+
+        if (this.idleSince !== null) {
+            const idleSince = this.idleSince;
+            this.idleSince = null;
+            this.emit('active', new Date(idleSince));
+        }
+    }
+
+    /**
+     * Gets the time of the last activity in any window
+     */
+    public getLastActivity(): Date {
+        const shared = this.context.globalState.get<number>(ActivityMonitor.LAST_ACTIVITY_KEY, 0);
+        return new Date(Math.max(this.lastActivity, shared));
+    }
+
+    /**
+     * Reports idleness once the threshold has passed without activity
+     * Activity in another window ends an idle period silently; that window reports it
+     */
+    private checkIdle(): void {
+        const lastActivity = this.getLastActivity().getTime();
+        const now = this.clock.now().getTime();
+
+        if (this.idleSince === null && now - lastActivity >= this.thresholdMs) {
+            this.idleSince = lastActivity;
+            this.emit('idle', new Date(lastActivity));
+        } else if (this.idleSince !== null && lastActivity > this.idleSince) {
+            this.idleSince = null;
+        }
+    }
+
+    /**
+     * Subscribes to the editor, terminal and window events that count as activity
+     * Terminal events missing from older VS Code versions are skipped
+     */
+    private subscribeToActivity(): vscode.Disposable[] {
+        const onActivity = () => this.recordActivity();
+        const subscriptions = [
+            vscode.workspace.onDidChangeTextDocument(event => {
+                // Output channels change on their own
+                if (event.contentChanges.length > 0 && event.document.uri.scheme !== 'output') {
+                    onActivity();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(onActivity),
+            vscode.window.onDidChangeActiveTextEditor(onActivity),
+            vscode.window.onDidChangeActiveTerminal(onActivity),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    onActivity();
+                }
+            })
+        ];
+
+        const terminalEvents = [vscode.window.onDidChangeTerminalState, vscode.window.onDidStartTerminalShellExecution];
+        for (const event of terminalEvents) {
+            if (event) {
+                subscriptions.push(event(onActivity));
+            }
+        }
+
+        return subscriptions;
+    }
+
+    /**
+     * Stops watching and removes all listeners
+     */
+    public dispose(): void {
+        this.stop();
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { HtmlEscaper } from './htmlEscaper';
+
+/**
+ * Full editor webview covering the workspace during a break in strict break enforcement
+ * The screen is rendered once and its countdown updated through messages; closing it or
+ * switching away from it only brings it back, and skipping the break needs a confirmation
+ *
+ * Events:
+ * - 'leave' when the user closes the screen or switches to another editor during the break
+ * - 'skip' when the user confirms skipping the rest of the break
+ */
+export class BreakScreen extends EventEmitter {
+    private static readonly VIEW_TYPE = 'workSessionManager.breakScreen';
+    private panel: vscode.WebviewPanel | undefined;
+    private closing: boolean = false;
+    private confirmingSkip: boolean = false;
+
+    /**
+     * Opens the break screen, or updates it if it is already open
+     */
+    public show(label: string, remainingTime: string): void {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                BreakScreen.VIEW_TYPE,
+                label,
+                vscode.ViewColumn.Active,
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            this.panel.webview.html = this.getHtml(label, remainingTime, this.panel.webview.cspSource);
+            this.panel.webview.onDidReceiveMessage(message => {
+                if (message?.type === 'skip') {
+                    this.confirmSkip();
+                }
+            });
+            this.panel.onDidChangeViewState(event => {
+                if (!event.webviewPanel.visible && !this.closing) {
+                    this.emit('leave');
+                }
+            });
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                if (!this.closing) {
+                    this.emit('leave');
+                }
+            });
+            return;
+        }
+
+        this.panel.title = label;
+        this.panel.webview.postMessage({ type: 'update', label, remainingTime });
+    }
+
+    /**
+     * Brings the break screen back to the front, if it is open
+     */
+    public reveal(): void {
+        this.panel?.reveal(undefined, false);
+    }
+
+    /**
+     * Checks if the break screen is open
+     */
+    public isVisible(): boolean {
+        return this.panel !== undefined;
+    }
+
+    /**
+     * Closes the break screen once the break is over
+     */
+    public close(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        this.closing = true;
+        try {
+            this.panel.dispose();
+        } finally {
+            this.panel = undefined;
+            this.closing = false;
+        }
+    }
+
+    /**
+     * Asks the user to confirm skipping the rest of the break
+     */
+    private async confirmSkip(): Promise<void> {
+        if (this.confirmingSkip) {
+            return;
+        }
+
+        this.confirmingSkip = true;
+        try {
+            const choice = await vscode.window.showWarningMessage(
+                'Skip the rest of your break?',
+                { modal: true, detail: 'Breaks keep you focused for the next work session.' },
+                'Skip Break'
+            );
+
+            if (choice === 'Skip Break' && this.panel) {
+                this.emit('skip');
+            }
+        } finally {
+            this.confirmingSkip = false;
+        }
+    }
+
+    /**
+     * Builds the break screen markup, with a script that updates the countdown and requests a skip
+     */
+    private getHtml(label: string, remainingTime: string, cspSource: string): string {
+        const nonce = randomBytes(16).toString('hex');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>${HtmlEscaper.escapeHtml(label)}</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); height: 100vh; margin: 0;
+            display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; }
+        .label { color: var(--vscode-descriptionForeground); font-size: 1.4em; }
+        .countdown { font-size: 6em; margin: 16px 0; font-variant-numeric: tabular-nums; }
+        p { max-width: 32em; }
+        button { margin-top: 32px; padding: 6px 14px; color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground); border: none; border-radius: 2px; cursor: pointer; }
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    </style>
+</head>
+<body>
+    <div class="label" id="label">${HtmlEscaper.escapeHtml(label)}</div>
+    <div class="countdown" id="countdown">${remainingTime}</div>
+    <p>Time to step away from the screen. Stretch, drink some water or rest your eyes; your work will be here when the break is over.</p>
+    <button id="skip">Skip Break</button>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.getElementById('skip').addEventListener('click', () => vscode.postMessage({ type: 'skip' }));
+        window.addEventListener('message', event => {
+            if (event.data.type === 'update') {
+                document.getElementById('label').textContent = event.data.label;
+                document.getElementById('countdown').textContent = event.data.remainingTime;
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Closes the break screen and removes all listeners
+     */
+    public dispose(): void {
+        this.close();
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
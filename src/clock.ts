@@ -0,0 +1,41 @@
+import { Clock, TimerHandle } from './types';
+
+/**
+ * Clock backed by the system time and Node's timer functions
+ */
+export class SystemClock implements Clock {
+    /**
+     * Gets the current wall-clock time
+     */
+    public now(): Date {
+        return new Date();
+    }
+
+    /**
+     * Schedules a repeating callback
+     */
+    public setInterval(callback: () => void, ms: number): TimerHandle {
+        return setInterval(callback, ms);
+    }
+
+    /**
+     * Cancels a repeating callback
+     */
+    public clearInterval(handle: TimerHandle): void {
+        clearInterval(handle);
+    }
+
+    /**
+     * Schedules a one-off callback
+     */
+    public setTimeout(callback: () => void, ms: number): TimerHandle {
+        return setTimeout(callback, ms);
+    }
+
+    /**
+     * Cancels a one-off callback
+     */
+    public clearTimeout(handle: TimerHandle): void {
+        clearTimeout(handle);
+    }
+}
\ No newline at end of file
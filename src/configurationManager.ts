@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig, ThemeColors } from './types';
+import {
+    ExtensionConfig, ThemeColors, RestoreOnStartupMode, TimerMode, PhaseDefinition, TimerPreset, PresetRunningPhaseMode, IdleDetectionMode,
+    BreakEnforcementMode, DoNotDisturbMode, DoNotDisturbPanel
+} from './types';
 
 /**
  * Manages VS Code configuration settings for the Work Session Manager extension
@@ -7,61 +10,153 @@ import { ExtensionConfig, ThemeColors } from './types';
  */
 export class ConfigurationManager {
     private static readonly CONFIG_SECTION = 'workSessionManager';
+    private static readonly BUILT_IN_PRESETS: TimerPreset[] = [
+        { name: 'Pomodoro', sessionDuration: 25, restDuration: 5, longBreakDuration: 15, longBreakInterval: 4 },
+        { name: '52/17', sessionDuration: 52, restDuration: 17 },
+        { name: 'Ultradian 90/20', sessionDuration: 90, restDuration: 20 }
+    ];
     private readonly defaultConfig: ExtensionConfig = {
         sessionDuration: 25,
         restDuration: 5,
+        longBreakDuration: 15,
+        longBreakInterval: 4,
         workSessionColor: '#4CAF50',
         restPeriodColor: '#64B5F6',
+        longBreakColor: '#9575CD',
         soundEnabled: true,
         showCountdown: true,
         showStatusDot: true,
         autoStartRest: true,
         autoStartWork: false,
         showPausePlayButton: true,
-        autoStartOnOpen: false
+        autoStartOnOpen: false,
+        restoreOnStartup: 'ask',
+        overtimeEnabled: false,
+        timerMode: 'pomodoro',
+        flowtimeBreakRatio: 5,
+        flowtimeMinBreak: 5,
+        flowtimeMaxBreak: 30,
+        timeAdjustmentStep: 5,
+        phaseSequence: [],
+        presets: [],
+        activePreset: '',
+        presetRunningPhase: 'adjust',
+        idleDetection: 'off',
+        idleThreshold: 5,
+        awayReminder: 0,
+        breakEnforcement: 'off',
+        doNotDisturb: 'off',
+        doNotDisturbPanels: ['sideBar', 'panel'],
+        doNotDisturbNotifications: true,
+        askForSessionLabel: true,
+        commitTrailer: false,
+        voidOnExternalInterruption: false,
+        dailySessionGoal: 0,
+        weeklyFocusGoal: 0
     };
+    private config: ExtensionConfig | null = null;
 
     /**
-     * Gets the current configuration with validation and defaults
+     * Gets the current configuration with validation and defaults, and keeps it for getConfigValue
      */
     public getConfiguration(): ExtensionConfig {
+        this.config = this.loadConfiguration();
+        return this.config;
+    }
+
+    /**
+     * Gets a specific configuration value from the configuration validated last, so invalid values are only reported once
+     */
+    public getConfigValue<K extends keyof ExtensionConfig>(key: K): ExtensionConfig[K] {
+        const fullConfig = this.config ?? this.getConfiguration();
+        return fullConfig[key];
+    }
+
+    /**
+     * Reads the configuration, validating each value and falling back to the defaults
+     */
+    private loadConfiguration(): ExtensionConfig {
         const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
+        const flowtimeMinBreak = this.validateFlowtimeBreakInternal('flowtimeMinBreak', config.get<number>('flowtimeMinBreak'));
+        const flowtimeMaxBreak = this.validateFlowtimeBreakInternal('flowtimeMaxBreak', config.get<number>('flowtimeMaxBreak'));
+        const presets = this.validatePresetsInternal(config.get<unknown>('presets'));
+        const preset = this.validateActivePresetInternal(config.get<string>('activePreset'), presets);
         
+        // The durations of the active preset take precedence over the duration settings
         return {
-            sessionDuration: this.validateSessionDurationInternal(config.get<number>('sessionDuration')),
-            restDuration: this.validateRestDurationInternal(config.get<number>('restDuration')),
+            sessionDuration: preset?.sessionDuration ?? this.validateSessionDurationInternal(config.get<number>('sessionDuration')),
+            restDuration: preset?.restDuration ?? this.validateRestDurationInternal(config.get<number>('restDuration')),
+            longBreakDuration: preset?.longBreakDuration ??
+                this.validateLongBreakDurationInternal(config.get<number>('longBreakDuration')),
+            longBreakInterval: preset?.longBreakInterval ??
+                this.validateLongBreakIntervalInternal(config.get<number>('longBreakInterval')),
             workSessionColor: this.validateColorInternal(config.get<string>('workSessionColor')),
             restPeriodColor: this.validateColorInternal(config.get<string>('restPeriodColor')),
+            longBreakColor: this.validateColorInternal(config.get<string>('longBreakColor')),
             soundEnabled: config.get<boolean>('soundEnabled') ?? this.defaultConfig.soundEnabled,
             showCountdown: config.get<boolean>('showCountdown') ?? this.defaultConfig.showCountdown,
             showStatusDot: config.get<boolean>('showStatusDot') ?? this.defaultConfig.showStatusDot,
             autoStartRest: config.get<boolean>('autoStartRest') ?? this.defaultConfig.autoStartRest,
             autoStartWork: config.get<boolean>('autoStartWork') ?? this.defaultConfig.autoStartWork,
             showPausePlayButton: config.get<boolean>('showPausePlayButton') ?? this.defaultConfig.showPausePlayButton,
-            autoStartOnOpen: config.get<boolean>('autoStartOnOpen') ?? this.defaultConfig.autoStartOnOpen
+            autoStartOnOpen: config.get<boolean>('autoStartOnOpen') ?? this.defaultConfig.autoStartOnOpen,
+            restoreOnStartup: this.validateRestoreOnStartupInternal(config.get<string>('restoreOnStartup')),
+            overtimeEnabled: config.get<boolean>('overtimeEnabled') ?? this.defaultConfig.overtimeEnabled,
+            timerMode: this.validateTimerModeInternal(config.get<string>('timerMode')),
+            flowtimeBreakRatio: this.validateFlowtimeBreakRatioInternal(config.get<number>('flowtimeBreakRatio')),
+            flowtimeMinBreak,
+            flowtimeMaxBreak: Math.max(flowtimeMinBreak, flowtimeMaxBreak), // The maximum can't undercut the minimum
+            timeAdjustmentStep: this.validateTimeAdjustmentStepInternal(config.get<number>('timeAdjustmentStep')),
+            phaseSequence: this.validatePhaseSequenceInternal(config.get<unknown>('phaseSequence')),
+            presets,
+            activePreset: preset?.name ?? '',
+            presetRunningPhase: this.validatePresetRunningPhaseInternal(config.get<string>('presetRunningPhase')),
+            idleDetection: this.validateIdleDetectionInternal(config.get<string>('idleDetection')),
+            idleThreshold: this.validateIdleThresholdInternal(config.get<number>('idleThreshold')),
+            awayReminder: this.validateAwayReminderInternal(config.get<number>('awayReminder')),
+            breakEnforcement: this.validateBreakEnforcementInternal(config.get<string>('breakEnforcement')),
+            doNotDisturb: this.validateDoNotDisturbInternal(config.get<string>('doNotDisturb')),
+            doNotDisturbPanels: this.validateDoNotDisturbPanelsInternal(config.get<unknown>('doNotDisturbPanels')),
+            doNotDisturbNotifications: config.get<boolean>('doNotDisturbNotifications') ?? this.defaultConfig.doNotDisturbNotifications,
+            askForSessionLabel: config.get<boolean>('askForSessionLabel') ?? this.defaultConfig.askForSessionLabel,
+            commitTrailer: config.get<boolean>('commitTrailer') ?? this.defaultConfig.commitTrailer,
+            voidOnExternalInterruption: config.get<boolean>('voidOnExternalInterruption') ?? this.defaultConfig.voidOnExternalInterruption,
+            dailySessionGoal: this.validateDailySessionGoalInternal(config.get<number>('dailySessionGoal')),
+            weeklyFocusGoal: this.validateWeeklyFocusGoalInternal(config.get<number>('weeklyFocusGoal'))
         };
     }
 
     /**
-     * Gets a specific configuration value with validation
-     */
-    public getConfigValue<K extends keyof ExtensionConfig>(key: K): ExtensionConfig[K] {
-        const fullConfig = this.getConfiguration();
-        return fullConfig[key];
-    }
-
-    /**
-     * Updates a configuration value
+     * Updates a configuration value, by default where it is currently set
      */
     public async updateConfiguration<K extends keyof ExtensionConfig>(
         key: K, 
         value: ExtensionConfig[K], 
-        target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+        target: vscode.ConfigurationTarget = this.getConfigurationTarget(key)
     ): Promise<void> {
         const config = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION);
         await config.update(key, value, target);
     }
 
+    /**
+     * Gets the built-in presets followed by the user-defined ones, which replace built-in presets of the same name
+     */
+    public getPresets(userPresets: TimerPreset[] = this.getConfigValue('presets')): TimerPreset[] {
+        const presets = ConfigurationManager.BUILT_IN_PRESETS
+            .filter(builtIn => !userPresets.some(preset => preset.name.toLowerCase() === builtIn.name.toLowerCase()));
+        return [...presets, ...userPresets];
+    }
+
+    /**
+     * Gets where a setting takes effect from: the workspace if it has its own value, or else the user settings
+     * Updating it there keeps workspace-specific settings specific to their workspace
+     */
+    public getConfigurationTarget(key: keyof ExtensionConfig): vscode.ConfigurationTarget {
+        const inspection = vscode.workspace.getConfiguration(ConfigurationManager.CONFIG_SECTION).inspect(key);
+        return inspection?.workspaceValue !== undefined ?
+            vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    }
+
     /**
      * Registers a configuration change listener
      */
@@ -93,6 +188,26 @@ export class ConfigurationManager {
         return value >= 1 && value <= 60;
     }
 
+    /**
+     * Validates long break duration (1-60 minutes) - public method
+     */
+    public validateLongBreakDuration(value: number | undefined): boolean {
+        if (typeof value !== 'number' || isNaN(value)) {
+            return false;
+        }
+        return value >= 1 && value <= 60;
+    }
+
+    /**
+     * Validates long break interval (1-12 work sessions) - public method
+     */
+    public validateLongBreakInterval(value: number | undefined): boolean {
+        if (typeof value !== 'number' || isNaN(value)) {
+            return false;
+        }
+        return value >= 1 && value <= 12;
+    }
+
     /**
      * Validates color (hex or CSS color name) - public method
      */
@@ -148,6 +263,456 @@ export class ConfigurationManager {
         return Math.floor(value); // Ensure integer value
     }
 
+    /**
+     * Validates long break duration (1-60 minutes) - private method
+     */
+    private validateLongBreakDurationInternal(value: number | undefined): number {
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('longBreakDuration', 'must be a number', this.defaultConfig.longBreakDuration);
+            return this.defaultConfig.longBreakDuration;
+        }
+
+        if (value < 1) {
+            this.showValidationWarning('longBreakDuration', 'must be at least 1 minute', this.defaultConfig.longBreakDuration);
+            return 1;
+        }
+
+        if (value > 60) {
+            this.showValidationWarning('longBreakDuration', 'cannot exceed 60 minutes', this.defaultConfig.longBreakDuration);
+            return 60;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates long break interval (1-12 work sessions) - private method
+     */
+    private validateLongBreakIntervalInternal(value: number | undefined): number {
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('longBreakInterval', 'must be a number', this.defaultConfig.longBreakInterval);
+            return this.defaultConfig.longBreakInterval;
+        }
+
+        if (value < 1) {
+            this.showValidationWarning('longBreakInterval', 'must be at least 1 session', this.defaultConfig.longBreakInterval);
+            return 1;
+        }
+
+        if (value > 12) {
+            this.showValidationWarning('longBreakInterval', 'cannot exceed 12 sessions', this.defaultConfig.longBreakInterval);
+            return 12;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates the restore-on-startup mode (never, always or ask) - private method
+     */
+    private validateRestoreOnStartupInternal(value: string | undefined): RestoreOnStartupMode {
+        if (value === undefined) {
+            return this.defaultConfig.restoreOnStartup;
+        }
+
+        if (value === 'never' || value === 'always' || value === 'ask') {
+            return value;
+        }
+
+        this.showValidationWarning('restoreOnStartup', 'must be one of never, always or ask', this.defaultConfig.restoreOnStartup);
+        return this.defaultConfig.restoreOnStartup;
+    }
+
+    /**
+     * Validates the timer mode (pomodoro or flowtime) - private method
+     */
+    private validateTimerModeInternal(value: string | undefined): TimerMode {
+        if (value === undefined) {
+            return this.defaultConfig.timerMode;
+        }
+
+        if (value === 'pomodoro' || value === 'flowtime') {
+            return value;
+        }
+
+        this.showValidationWarning('timerMode', 'must be one of pomodoro or flowtime', this.defaultConfig.timerMode);
+        return this.defaultConfig.timerMode;
+    }
+
+    /**
+     * Validates the flowtime break ratio (1-20, one minute of rest per N minutes worked) - private method
+     */
+    private validateFlowtimeBreakRatioInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.flowtimeBreakRatio;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('flowtimeBreakRatio', 'must be a number', this.defaultConfig.flowtimeBreakRatio);
+            return this.defaultConfig.flowtimeBreakRatio;
+        }
+
+        if (value < 1) {
+            this.showValidationWarning('flowtimeBreakRatio', 'must be at least 1', this.defaultConfig.flowtimeBreakRatio);
+            return 1;
+        }
+
+        if (value > 20) {
+            this.showValidationWarning('flowtimeBreakRatio', 'cannot exceed 20', this.defaultConfig.flowtimeBreakRatio);
+            return 20;
+        }
+
+        return value;
+    }
+
+    /**
+     * Validates a flowtime break bound (1-60 minutes) - private method
+     */
+    private validateFlowtimeBreakInternal(setting: 'flowtimeMinBreak' | 'flowtimeMaxBreak', value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig[setting];
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning(setting, 'must be a number', this.defaultConfig[setting]);
+            return this.defaultConfig[setting];
+        }
+
+        if (value < 1) {
+            this.showValidationWarning(setting, 'must be at least 1 minute', this.defaultConfig[setting]);
+            return 1;
+        }
+
+        if (value > 60) {
+            this.showValidationWarning(setting, 'cannot exceed 60 minutes', this.defaultConfig[setting]);
+            return 60;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates the time adjustment step (1-60 minutes) - private method
+     */
+    private validateTimeAdjustmentStepInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.timeAdjustmentStep;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('timeAdjustmentStep', 'must be a number', this.defaultConfig.timeAdjustmentStep);
+            return this.defaultConfig.timeAdjustmentStep;
+        }
+
+        if (value < 1) {
+            this.showValidationWarning('timeAdjustmentStep', 'must be at least 1 minute', this.defaultConfig.timeAdjustmentStep);
+            return 1;
+        }
+
+        if (value > 60) {
+            this.showValidationWarning('timeAdjustmentStep', 'cannot exceed 60 minutes', this.defaultConfig.timeAdjustmentStep);
+            return 60;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates the custom phase sequence - private method
+     * Phases without a name, a known kind or a duration are skipped; durations are clamped to 1-240 minutes
+     * and invalid colors, icons or sounds fall back to those of the phase's kind
+     */
+    private validatePhaseSequenceInternal(value: unknown): PhaseDefinition[] {
+        if (value === undefined) {
+            return this.defaultConfig.phaseSequence;
+        }
+
+        if (!Array.isArray(value)) {
+            this.showValidationWarning('phaseSequence', 'must be a list of phases', 'no sequence');
+            return this.defaultConfig.phaseSequence;
+        }
+
+        const phases: PhaseDefinition[] = [];
+        for (const phase of value) {
+            const isValid = phase && typeof phase === 'object' &&
+                typeof phase.name === 'string' && phase.name.trim() !== '' &&
+                ['work', 'rest', 'longBreak'].includes(phase.kind) &&
+                typeof phase.duration === 'number' && !isNaN(phase.duration);
+            if (!isValid) {
+                continue;
+            }
+
+            phases.push({
+                name: phase.name.trim(),
+                kind: phase.kind,
+                duration: Math.min(240, Math.max(1, Math.floor(phase.duration))),
+                color: typeof phase.color === 'string' && this.validateColor(phase.color) ? phase.color.trim() : undefined,
+                icon: typeof phase.icon === 'string' && phase.icon.trim() !== '' ? phase.icon.trim() : undefined,
+                sound: ['work', 'rest', 'none'].includes(phase.sound) ? phase.sound : undefined
+            });
+        }
+
+        if (phases.length < value.length) {
+            vscode.window.showWarningMessage(
+                `Work Session Manager: Skipped ${value.length - phases.length} invalid phase(s) in 'phaseSequence' - ` +
+                'each phase needs a name, a kind (work, rest or longBreak) and a duration in minutes'
+            );
+        }
+
+        return phases;
+    }
+
+    /**
+     * Validates the user-defined presets, skipping presets without a name or durations - private method
+     */
+    private validatePresetsInternal(value: unknown): TimerPreset[] {
+        if (value === undefined) {
+            return this.defaultConfig.presets;
+        }
+
+        if (!Array.isArray(value)) {
+            this.showValidationWarning('presets', 'must be a list of presets', 'no presets');
+            return this.defaultConfig.presets;
+        }
+
+        const clamp = (duration: number, max: number) => Math.min(max, Math.max(1, Math.floor(duration)));
+        const isNumber = (duration: unknown): duration is number => typeof duration === 'number' && !isNaN(duration);
+        const presets: TimerPreset[] = [];
+        for (const preset of value) {
+            const isValid = preset && typeof preset === 'object' &&
+                typeof preset.name === 'string' && preset.name.trim() !== '' &&
+                isNumber(preset.sessionDuration) && isNumber(preset.restDuration);
+            if (!isValid) {
+                continue;
+            }
+
+            presets.push({
+                name: preset.name.trim(),
+                sessionDuration: clamp(preset.sessionDuration, 120),
+                restDuration: clamp(preset.restDuration, 60),
+                longBreakDuration: isNumber(preset.longBreakDuration) ? clamp(preset.longBreakDuration, 60) : undefined,
+                longBreakInterval: isNumber(preset.longBreakInterval) ? clamp(preset.longBreakInterval, 12) : undefined
+            });
+        }
+
+        if (presets.length < value.length) {
+            vscode.window.showWarningMessage(
+                `Work Session Manager: Skipped ${value.length - presets.length} invalid preset(s) in 'presets' - ` +
+                'each preset needs a name, a sessionDuration and a restDuration in minutes'
+            );
+        }
+
+        return presets;
+    }
+
+    /**
+     * Finds the active preset by name, if any - private method
+     */
+    private validateActivePresetInternal(value: string | undefined, userPresets: TimerPreset[]): TimerPreset | undefined {
+        if (typeof value !== 'string' || value.trim() === '') {
+            return undefined;
+        }
+
+        const preset = this.getPresets(userPresets).find(candidate => candidate.name.toLowerCase() === value.trim().toLowerCase());
+        if (!preset) {
+            this.showValidationWarning('activePreset', `there is no preset named '${value}'`, 'the duration settings');
+        }
+        return preset;
+    }
+
+    /**
+     * Validates how switching presets treats the running phase (adjust or keep) - private method
+     */
+    private validatePresetRunningPhaseInternal(value: string | undefined): PresetRunningPhaseMode {
+        if (value === undefined) {
+            return this.defaultConfig.presetRunningPhase;
+        }
+
+        if (value === 'adjust' || value === 'keep') {
+            return value;
+        }
+
+        this.showValidationWarning('presetRunningPhase', 'must be one of adjust or keep', this.defaultConfig.presetRunningPhase);
+        return this.defaultConfig.presetRunningPhase;
+    }
+
+    /**
+     * Validates the idle detection mode (off, autoResume or prompt) - private method
+     */
+    private validateIdleDetectionInternal(value: string | undefined): IdleDetectionMode {
+        if (value === undefined) {
+            return this.defaultConfig.idleDetection;
+        }
+
+        if (value === 'off' || value === 'autoResume' || value === 'prompt') {
+            return value;
+        }
+
+        this.showValidationWarning('idleDetection', 'must be one of off, autoResume or prompt', this.defaultConfig.idleDetection);
+        return this.defaultConfig.idleDetection;
+    }
+
+    /**
+     * Validates the idle threshold (1-60 minutes) - private method
+     */
+    private validateIdleThresholdInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.idleThreshold;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('idleThreshold', 'must be a number', this.defaultConfig.idleThreshold);
+            return this.defaultConfig.idleThreshold;
+        }
+
+        if (value < 1) {
+            this.showValidationWarning('idleThreshold', 'must be at least 1 minute', this.defaultConfig.idleThreshold);
+            return 1;
+        }
+
+        if (value > 60) {
+            this.showValidationWarning('idleThreshold', 'cannot exceed 60 minutes', this.defaultConfig.idleThreshold);
+            return 60;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates the away reminder (0-120 minutes, 0 disables) - private method
+     */
+    private validateAwayReminderInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.awayReminder;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('awayReminder', 'must be a number', this.defaultConfig.awayReminder);
+            return this.defaultConfig.awayReminder;
+        }
+
+        if (value < 0) {
+            this.showValidationWarning('awayReminder', 'cannot be negative', this.defaultConfig.awayReminder);
+            return 0;
+        }
+
+        if (value > 120) {
+            this.showValidationWarning('awayReminder', 'cannot exceed 120 minutes', this.defaultConfig.awayReminder);
+            return 120;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates the break enforcement mode (off, remind or strict) - private method
+     */
+    private validateBreakEnforcementInternal(value: string | undefined): BreakEnforcementMode {
+        if (value === undefined) {
+            return this.defaultConfig.breakEnforcement;
+        }
+
+        if (value === 'off' || value === 'remind' || value === 'strict') {
+            return value;
+        }
+
+        this.showValidationWarning('breakEnforcement', 'must be one of off, remind or strict', this.defaultConfig.breakEnforcement);
+        return this.defaultConfig.breakEnforcement;
+    }
+
+    /**
+     * Validates the do not disturb mode (off, zenMode or hidePanels) - private method
+     */
+    private validateDoNotDisturbInternal(value: string | undefined): DoNotDisturbMode {
+        if (value === undefined) {
+            return this.defaultConfig.doNotDisturb;
+        }
+
+        if (value === 'off' || value === 'zenMode' || value === 'hidePanels') {
+            return value;
+        }
+
+        this.showValidationWarning('doNotDisturb', 'must be one of off, zenMode or hidePanels', this.defaultConfig.doNotDisturb);
+        return this.defaultConfig.doNotDisturb;
+    }
+
+    /**
+     * Validates the parts of the workbench hidden by do not disturb, dropping unknown ones - private method
+     */
+    private validateDoNotDisturbPanelsInternal(value: unknown): DoNotDisturbPanel[] {
+        if (value === undefined) {
+            return this.defaultConfig.doNotDisturbPanels;
+        }
+
+        if (!Array.isArray(value)) {
+            this.showValidationWarning('doNotDisturbPanels', 'must be a list of panels', this.defaultConfig.doNotDisturbPanels.join(', '));
+            return this.defaultConfig.doNotDisturbPanels;
+        }
+
+        const known: DoNotDisturbPanel[] = ['sideBar', 'panel', 'auxiliaryBar'];
+        const panels = value.filter((panel): panel is DoNotDisturbPanel => known.includes(panel));
+        if (panels.length < value.length) {
+            vscode.window.showWarningMessage(
+                `Work Session Manager: Skipped ${value.length - panels.length} unknown panel(s) in 'doNotDisturbPanels' - ` +
+                'panels can be sideBar, panel and auxiliaryBar'
+            );
+        }
+
+        return panels.filter((panel, index) => panels.indexOf(panel) === index);
+    }
+
+    /**
+     * Validates daily session goal (0-24 sessions, 0 disables) - private method
+     */
+    private validateDailySessionGoalInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.dailySessionGoal;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('dailySessionGoal', 'must be a number', this.defaultConfig.dailySessionGoal);
+            return this.defaultConfig.dailySessionGoal;
+        }
+
+        if (value < 0) {
+            this.showValidationWarning('dailySessionGoal', 'cannot be negative', this.defaultConfig.dailySessionGoal);
+            return 0;
+        }
+
+        if (value > 24) {
+            this.showValidationWarning('dailySessionGoal', 'cannot exceed 24 sessions', this.defaultConfig.dailySessionGoal);
+            return 24;
+        }
+
+        return Math.floor(value); // Ensure integer value
+    }
+
+    /**
+     * Validates weekly focus goal (0-80 hours, 0 disables) - private method
+     */
+    private validateWeeklyFocusGoalInternal(value: number | undefined): number {
+        if (value === undefined) {
+            return this.defaultConfig.weeklyFocusGoal;
+        }
+
+        if (typeof value !== 'number' || isNaN(value)) {
+            this.showValidationWarning('weeklyFocusGoal', 'must be a number', this.defaultConfig.weeklyFocusGoal);
+            return this.defaultConfig.weeklyFocusGoal;
+        }
+
+        if (value < 0) {
+            this.showValidationWarning('weeklyFocusGoal', 'cannot be negative', this.defaultConfig.weeklyFocusGoal);
+            return 0;
+        }
+
+        if (value > 80) {
+            this.showValidationWarning('weeklyFocusGoal', 'cannot exceed 80 hours', this.defaultConfig.weeklyFocusGoal);
+            return 80;
+        }
+
+        return value;
+    }
+
     /**
      * Validates color values (hex codes or CSS color names) - private method
      */
@@ -242,13 +807,14 @@ export class ConfigurationManager {
     }
 
     /**
-     * Gets theme colors for work session and rest period
+     * Gets theme colors for work session, rest period and long break
      */
     public getThemeColors(): ThemeColors {
         const config = this.getConfiguration();
         return {
             workSessionColor: config.workSessionColor,
-            restPeriodColor: config.restPeriodColor
+            restPeriodColor: config.restPeriodColor,
+            longBreakColor: config.longBreakColor
         };
     }
 
@@ -261,6 +827,9 @@ export class ConfigurationManager {
     ): Promise<void> {
         await this.updateConfiguration('workSessionColor', colors.workSessionColor, target);
         await this.updateConfiguration('restPeriodColor', colors.restPeriodColor, target);
+        if (colors.longBreakColor) {
+            await this.updateConfiguration('longBreakColor', colors.longBreakColor, target);
+        }
     }
 
     /**
@@ -408,6 +977,17 @@ export class ConfigurationManager {
             errors.push('restDuration must be a number between 1 and 60');
         }
 
+        // Validate long break settings (unset values fall back to defaults)
+        const longBreakDuration = config.get<number>('longBreakDuration');
+        if (longBreakDuration !== undefined && !this.validateLongBreakDuration(longBreakDuration)) {
+            errors.push('longBreakDuration must be a number between 1 and 60');
+        }
+
+        const longBreakInterval = config.get<number>('longBreakInterval');
+        if (longBreakInterval !== undefined && !this.validateLongBreakInterval(longBreakInterval)) {
+            errors.push('longBreakInterval must be a number between 1 and 12');
+        }
+
         // Validate colors
         const workColor = config.get<string>('workSessionColor');
         if (typeof workColor === 'string' && !this.isValidHexColor(workColor) && !this.isValidCSSColorName(workColor)) {
@@ -419,6 +999,11 @@ export class ConfigurationManager {
             errors.push('restPeriodColor must be a valid hex color or CSS color name');
         }
 
+        const longBreakColor = config.get<string>('longBreakColor');
+        if (typeof longBreakColor === 'string' && !this.isValidHexColor(longBreakColor) && !this.isValidCSSColorName(longBreakColor)) {
+            errors.push('longBreakColor must be a valid hex color or CSS color name');
+        }
+
         return {
             isValid: errors.length === 0,
             errors
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { StateManager } from './stateManager';
+import { ConfigurationManager } from './configurationManager';
+import { StatisticsCalculator } from './statisticsCalculator';
+import { TimeFormatter } from './timeFormatter';
+import { HtmlEscaper } from './htmlEscaper';
+import { DashboardStatistics, DailyFocus, PhaseTotal, FocusTotal } from './types';
+
+/**
+ * Webview panel showing focus statistics from the session history
+ * The panel is rendered from scratch on every refresh; it has no scripts
+ */
+export class DashboardPanel {
+    private static readonly VIEW_TYPE = 'workSessionManager.dashboard';
+    private panel: vscode.WebviewPanel | undefined;
+    private stateManager: StateManager;
+    private configurationManager: ConfigurationManager;
+    private calculator: StatisticsCalculator;
+    private project: string | undefined;
+
+    constructor(
+        stateManager: StateManager,
+        configurationManager: ConfigurationManager,
+        calculator: StatisticsCalculator = new StatisticsCalculator()
+    ) {
+        this.stateManager = stateManager;
+        this.configurationManager = configurationManager;
+        this.calculator = calculator;
+    }
+
+    /**
+     * Opens the dashboard, or reveals it if it is already open
+     * Given a project, the statistics only cover the sessions credited to it
+     */
+    public show(project?: string): void {
+        this.project = project;
+        if (this.panel) {
+            this.panel.reveal();
+            this.refresh();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            DashboardPanel.VIEW_TYPE,
+            'Work Session Dashboard',
+            vscode.ViewColumn.Active,
+            { enableScripts: false }
+        );
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+        this.refresh();
+    }
+
+    /**
+     * Checks if the dashboard is currently open
+     */
+    public isVisible(): boolean {
+        return this.panel !== undefined;
+    }
+
+    /**
+     * Re-renders the dashboard from the latest history, if it is open
+     */
+    public refresh(): void {
+        if (!this.panel) {
+            return;
+        }
+
+        const dailySessionGoal = this.configurationManager.getConfigValue('dailySessionGoal');
+        const statistics = this.calculator.calculate(this.stateManager.getHistory({ project: this.project }), dailySessionGoal);
+        this.panel.title = this.project ? `Work Sessions: ${this.project}` : 'Work Session Dashboard';
+        this.panel.webview.html = this.getHtml(statistics, dailySessionGoal, this.panel.webview.cspSource);
+    }
+
+    /**
+     * Builds the dashboard markup
+     */
+    private getHtml(statistics: DashboardStatistics, dailySessionGoal: number, cspSource: string): string {
+        const cards = [
+            ['Sessions today', dailySessionGoal > 0 ? `${statistics.todaySessions}/${dailySessionGoal}` : statistics.todaySessions.toString()],
+            ['Today', TimeFormatter.formatDuration(statistics.todayFocusTime)],
+            ['This week', TimeFormatter.formatDuration(statistics.weekFocusTime)],
+            ['Completed sessions', statistics.completedSessions.toString()],
+            ['Abandoned sessions', statistics.abandonedSessions.toString()],
+            ['Average session', TimeFormatter.formatDuration(statistics.averageSessionLength)],
+            ['Current streak', `${statistics.currentStreak} ${statistics.currentStreak === 1 ? 'day' : 'days'}`],
+            ['Break violations this week', statistics.weekBreakViolations.toString()]
+        ];
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+    <title>Work Session Dashboard</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px; }
+        .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; margin-bottom: 24px; }
+        .card { background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-widget-border, transparent); border-radius: 4px; padding: 12px; }
+        .card .label { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+        .card .value { font-size: 1.6em; margin-top: 4px; }
+        .heatmap { display: grid; grid-template-rows: repeat(7, 12px); grid-auto-flow: column; grid-auto-columns: 12px; gap: 3px; }
+        .day { border-radius: 2px; background: var(--vscode-charts-green); }
+        .level-0 { background: var(--vscode-editorWidget-background); opacity: 1; }
+        .level-1 { opacity: 0.3; }
+        .level-2 { opacity: 0.5; }
+        .level-3 { opacity: 0.75; }
+        .level-4 { opacity: 1; }
+        table { border-collapse: collapse; margin-bottom: 24px; }
+        th, td { text-align: left; padding: 4px 16px 4px 0; }
+        th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    </style>
+</head>
+<body>
+    <h1>${this.project ? `Focus Dashboard: ${HtmlEscaper.escapeHtml(this.project)}` : 'Focus Dashboard'}</h1>
+    <div class="cards">
+        ${cards.map(([label, value]) => `<div class="card"><div class="label">${label}</div><div class="value">${value}</div></div>`).join('\n        ')}
+    </div>
+    <h2>This week by phase</h2>
+    ${this.getPhaseTable(statistics.weekPhaseTotals)}
+    ${this.project ? '' : `<h2>By project</h2>
+    ${this.getFocusTable('Project', statistics.projectTotals, 'No work sessions recorded yet.')}`}
+    <h2>By label</h2>
+    ${this.getFocusTable('Label', statistics.labelTotals, 'No labeled work sessions recorded yet.')}
+    <h2>Focus time over the last year</h2>
+    <div class="heatmap">
+        ${this.getHeatmapCells(statistics.dailyFocus)}
+    </div>
+</body>
+</html>`;
+    }
+
+    /**
+     * Builds a table of the time spent per phase name
+     */
+    private getPhaseTable(phaseTotals: PhaseTotal[]): string {
+        if (phaseTotals.length === 0) {
+            return '<p>No phases recorded this week.</p>';
+        }
+
+        const rows = phaseTotals.map(total =>
+            `<tr><td>${HtmlEscaper.escapeHtml(total.name)}</td><td>${TimeFormatter.formatDuration(total.time)}</td><td>${total.count}</td></tr>`
+        );
+        return `<table>
+        <tr><th>Phase</th><th>Time</th><th>Count</th></tr>
+        ${rows.join('\n        ')}
+    </table>`;
+    }
+
+    /**
+     * Builds a table of the focus time per project or label, headed by the given column name
+     */
+    private getFocusTable(column: string, focusTotals: FocusTotal[], emptyMessage: string): string {
+        if (focusTotals.length === 0) {
+            return `<p>${emptyMessage}</p>`;
+        }
+
+        const rows = focusTotals.map(total => `<tr><td>${HtmlEscaper.escapeHtml(total.name)}</td>` +
+            `<td>${TimeFormatter.formatDuration(total.todayFocusTime)}</td><td>${TimeFormatter.formatDuration(total.weekFocusTime)}</td>` +
+            `<td>${TimeFormatter.formatDuration(total.totalFocusTime)}</td><td>${total.completedSessions}</td></tr>`
+        );
+        return `<table>
+        <tr><th>${column}</th><th>Today</th><th>This week</th><th>Total</th><th>Sessions</th></tr>
+        ${rows.join('\n        ')}
+    </table>`;
+    }
+
+    /**
+     * Builds one heatmap cell per day, shaded relative to the busiest day
+     */
+    private getHeatmapCells(dailyFocus: DailyFocus[]): string {
+        const maxFocusTime = Math.max(0, ...dailyFocus.map(day => day.focusTime));
+
+        return dailyFocus.map(day => {
+            const level = maxFocusTime > 0 ? Math.ceil((day.focusTime / maxFocusTime) * 4) : 0;
+            const title = `${day.date}: ${TimeFormatter.formatDuration(day.focusTime)}, ${day.sessions} ${day.sessions === 1 ? 'session' : 'sessions'}`;
+            return `<div class="day level-${level}" title="${title}"></div>`;
+        }).join('');
+    }
+
+    /**
+     * Closes the dashboard
+     */
+    public dispose(): void {
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+}
\ No newline at end of file
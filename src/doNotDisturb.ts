@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { DoNotDisturbMode, DoNotDisturbPanel, WorkbenchState } from './types';
+
+/**
+ * What do not disturb changed in the workbench, so that exactly that can be undone
+ */
+interface DoNotDisturbChanges {
+    zenMode: boolean;
+    panels: DoNotDisturbPanel[];
+    notifications: boolean;
+}
+
+/**
+ * Clears the workbench of distractions during work sessions and restores it afterwards
+ * Only what is known to be on is turned off: VS Code does not expose the layout or the
+ * notification mode, so anything the state reader cannot tell is left alone
+ */
+export class DoNotDisturbController {
+    private static readonly PANEL_COMMANDS: { [panel in DoNotDisturbPanel]: { hide: string; show: string } } = {
+        sideBar: { hide: 'workbench.action.closeSidebar', show: 'workbench.action.focusSideBar' },
+        panel: { hide: 'workbench.action.closePanel', show: 'workbench.action.focusPanel' },
+        auxiliaryBar: { hide: 'workbench.action.closeAuxiliaryBar', show: 'workbench.action.focusAuxiliaryBar' }
+    };
+    private static readonly TOGGLE_NOTIFICATIONS = 'notifications.toggleDoNotDisturbMode';
+
+    private readState: () => Promise<WorkbenchState>;
+    private changes: DoNotDisturbChanges | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(readState: () => Promise<WorkbenchState> = async () => ({})) {
+        this.readState = readState;
+    }
+
+    /**
+     * Enters Zen Mode or hides the given panels, and silences notifications if asked to
+     * Does nothing if do not disturb is off or already on, and skips what is already off or unknown
+     */
+    public enter(mode: DoNotDisturbMode, panels: DoNotDisturbPanel[], silenceNotifications: boolean): Promise<void> {
+        if (mode === 'off' || this.changes) {
+            return Promise.resolve();
+        }
+
+        const changes: DoNotDisturbChanges = { zenMode: false, panels: [], notifications: false };
+        this.changes = changes;
+
+        return this.schedule(async () => {
+            const state = await this.readState();
+            if (mode === 'zenMode') {
+                if (state.zenMode === false) {
+                    changes.zenMode = await this.run('workbench.action.toggleZenMode');
+                }
+            } else {
+                const visiblePanels = state.visiblePanels ?? [];
+                for (const panel of panels.filter(panel => visiblePanels.includes(panel))) {
+                    if (await this.run(DoNotDisturbController.PANEL_COMMANDS[panel].hide)) {
+                        changes.panels.push(panel);
+                    }
+                }
+            }
+
+            if (silenceNotifications && state.notificationsSilenced === false) {
+                changes.notifications = await this.run(DoNotDisturbController.TOGGLE_NOTIFICATIONS);
+            }
+        });
+    }
+
+    /**
+     * Restores what entering do not disturb changed
+     * Resolves to true if notifications were silenced, so that the user can review them
+     */
+    public exit(): Promise<boolean> {
+        const changes = this.changes;
+        if (!changes) {
+            return Promise.resolve(false);
+        }
+
+        this.changes = null;
+        return this.schedule(async () => {
+            if (changes.zenMode) {
+                await this.run('workbench.action.exitZenMode');
+            }
+
+            if (changes.panels.length > 0) {
+                for (const panel of changes.panels) {
+                    await this.run(DoNotDisturbController.PANEL_COMMANDS[panel].show);
+                }
+                // Showing a panel focuses it; hand the focus back to the editor
+                await this.run('workbench.action.focusActiveEditorGroup');
+            }
+
+            if (changes.notifications) {
+                await this.run(DoNotDisturbController.TOGGLE_NOTIFICATIONS);
+            }
+            return changes.notifications;
+        });
+    }
+
+    /**
+     * Checks if do not disturb is on
+     */
+    public isActive(): boolean {
+        return this.changes !== null;
+    }
+
+    /**
+     * Runs workbench changes one after another, so that leaving always undoes a complete entry
+     */
+    private schedule<T>(work: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(work);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Runs a workbench command, returning false if it is not available in this version of VS Code
+     */
+    private async run(command: string): Promise<boolean> {
+        try {
+            await vscode.commands.executeCommand(command);
+            return true;
+        } catch (error) {
+            console.warn(`Work Session Manager: Failed to run ${command}:`, error);
+            return false;
+        }
+    }
+}
\ No newline at end of file
@@ -4,32 +4,129 @@ import { StatusBarController } from './statusBarController';
 import { ConfigurationManager } from './configurationManager';
 import { AudioManager } from './audioManager';
 import { StateManager } from './stateManager';
-import { TimerState, TimerEventData, ExtensionConfig } from './types';
+import { WindowCoordinator } from './windowCoordinator';
+import { ActivityMonitor } from './activityMonitor';
+import { FocusTracker } from './focusTracker';
+import { BreakScreen } from './breakScreen';
+import { DoNotDisturbController } from './doNotDisturb';
+import { GitTracker } from './gitTracker';
+import { TaskStore } from './taskStore';
+import { DashboardPanel } from './dashboardPanel';
+import { TimerView } from './timerView';
+import { StatisticsCalculator } from './statisticsCalculator';
+import { SystemClock } from './clock';
+import {
+    TimerState, TimerContext, TimerEventData, ExtensionConfig, Clock, TimerCommand, HistoryEntry, GoalProgress, TimerHandle, TimerPreset,
+    WorkspaceAttribution, BreakEnforcementMode, InterruptionType, Task
+} from './types';
+
+/**
+ * Preset choice in the preset switcher, an empty preset name standing for the duration settings
+ */
+interface PresetPickItem extends vscode.QuickPickItem {
+    presetName: string;
+}
+
+/**
+ * Choice in the session label picker, an empty label standing for none
+ */
+interface LabelPickItem extends vscode.QuickPickItem {
+    sessionLabel: string;
+}
+
+/**
+ * Choice of interruption type when logging an interruption
+ */
+interface InterruptionPickItem extends vscode.QuickPickItem {
+    interruptionType: InterruptionType;
+}
+
+/**
+ * Entry in the task list, without a task for the item that adds one
+ */
+interface TaskPickItem extends vscode.QuickPickItem {
+    task?: Task;
+}
+
+/**
+ * Action in the timer menu opened from the status bar
+ */
+interface MenuPickItem extends vscode.QuickPickItem {
+    command: string;
+}
+
+/**
+ * The settings of do not disturb, kept at hand as the timer checks them on every tick
+ */
+type DoNotDisturbSettings = Pick<ExtensionConfig, 'doNotDisturb' | 'doNotDisturbPanels' | 'doNotDisturbNotifications'>;
 
 /**
  * Main extension class that coordinates all components
  */
-class WorkSessionManagerExtension {
+export class WorkSessionManagerExtension {
+    private static readonly BREAK_VIOLATION_INTERVAL = 60 * 1000; // a break violation is counted at most once a minute
+    private static readonly RECENT_LABELS = 10; // labels offered when starting a work session
+    private static readonly PHASE_STARTING_COMMANDS: TimerCommand[] = ['startSession', 'startRest', 'startLongBreak', 'takeBreak'];
+
     private timerManager!: TimerManager;
     private statusBarController!: StatusBarController;
     private configurationManager: ConfigurationManager;
     private audioManager!: AudioManager;
     private stateManager: StateManager;
+    private windowCoordinator: WindowCoordinator;
+    private activityMonitor: ActivityMonitor;
+    private focusTracker: FocusTracker;
+    private breakScreen: BreakScreen;
+    private doNotDisturb: DoNotDisturbController;
+    private gitTracker: GitTracker;
+    private taskStore: TaskStore;
+    private dashboardPanel: DashboardPanel;
+    private timerView: TimerView;
+    private statisticsCalculator: StatisticsCalculator;
     private context: vscode.ExtensionContext;
+    private clock: Clock;
     private disposables: vscode.Disposable[] = [];
     private sessionCount: number = 0;
     private totalWorkTime: number = 0;
+    private totalOvertime: number = 0;
+    private ready: Promise<void>;
+    private mirroredStateKey: string | undefined;
+    private goalProgress: GoalProgress | null = null;
+    private dayRolloverHandle: TimerHandle | null = null;
+    private activePreset: string = '';
+    private promptingResume: boolean = false;
+    private awayReminderHandle: TimerHandle | null = null;
+    private breakEnforcement: BreakEnforcementMode = 'off';
+    private lastBreakViolation: number = 0;
+    private doNotDisturbSettings!: DoNotDisturbSettings;
+    private commitTrailer: boolean = false;
+    private lastPhaseStart: number | undefined;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, clock: Clock = new SystemClock()) {
         this.context = context;
+        this.clock = clock;
         this.configurationManager = new ConfigurationManager();
-        this.stateManager = new StateManager(context);
+        this.stateManager = new StateManager(context, clock);
+        this.windowCoordinator = new WindowCoordinator(context, clock);
+        this.activityMonitor = new ActivityMonitor(context, clock);
+        this.focusTracker = new FocusTracker(context, this.windowCoordinator.getWindowId(), clock);
+        this.breakScreen = new BreakScreen();
+        this.doNotDisturb = new DoNotDisturbController();
+        this.gitTracker = new GitTracker(context, clock);
+        this.taskStore = new TaskStore(this.stateManager, clock);
+        this.statisticsCalculator = new StatisticsCalculator(clock);
+        this.dashboardPanel = new DashboardPanel(this.stateManager, this.configurationManager, this.statisticsCalculator);
+        this.timerView = new TimerView(this.stateManager, this.taskStore);
         
         // Initialize components
         this.initializeComponents();
         this.registerCommands();
         this.setupEventHandlers();
-        this.restoreState();
+        this.scheduleDayRollover();
+        this.updateIdleDetection(this.configurationManager.getConfiguration());
+        this.focusTracker.start();
+        this.gitTracker.start();
+        this.ready = this.restoreState();
     }
 
     /**
@@ -39,7 +136,9 @@ class WorkSessionManagerExtension {
         const config = this.configurationManager.getConfiguration();
         
         // Initialize timer manager
-        this.timerManager = new TimerManager(config.sessionDuration, config.restDuration);
+        this.timerManager = new TimerManager(config.sessionDuration, config.restDuration, config.longBreakDuration, this.clock);
+        this.timerManager.setOvertimeEnabled(config.overtimeEnabled);
+        this.timerManager.setSequence(config.phaseSequence);
         
         // Initialize status bar controller
         this.statusBarController = new StatusBarController(
@@ -51,6 +150,13 @@ class WorkSessionManagerExtension {
             }
         );
         
+        this.activePreset = config.activePreset;
+        this.statusBarController.setPresetName(config.activePreset);
+        this.statusBarController.setActiveTask(this.taskStore.getActiveTask());
+        this.breakEnforcement = config.breakEnforcement;
+        this.doNotDisturbSettings = this.getDoNotDisturbSettings(config);
+        this.commitTrailer = config.commitTrailer;
+        
         // Initialize audio manager
         this.audioManager = new AudioManager(config.soundEnabled);
     }
@@ -60,16 +166,122 @@ class WorkSessionManagerExtension {
      */
     private registerCommands(): void {
         const commands = [
-            vscode.commands.registerCommand('workSessionManager.startSession', () => this.startSession()),
-            vscode.commands.registerCommand('workSessionManager.startRest', () => this.startRest()),
-            vscode.commands.registerCommand('workSessionManager.pause', () => this.pause()),
-            vscode.commands.registerCommand('workSessionManager.resume', () => this.resume()),
-            vscode.commands.registerCommand('workSessionManager.reset', () => this.reset())
+            vscode.commands.registerCommand('workSessionManager.startSession', (label?: unknown) => this.startLabeledSession(label)),
+            vscode.commands.registerCommand('workSessionManager.startRest', () => this.runCommand('startRest')),
+            vscode.commands.registerCommand('workSessionManager.startLongBreak', () => this.runCommand('startLongBreak')),
+            vscode.commands.registerCommand('workSessionManager.takeBreak', () => this.runCommand('takeBreak')),
+            vscode.commands.registerCommand('workSessionManager.pause', () => this.runCommand('pause')),
+            vscode.commands.registerCommand('workSessionManager.resume', () => this.runCommand('resume')),
+            vscode.commands.registerCommand('workSessionManager.reset', () => this.runCommand('reset')),
+            vscode.commands.registerCommand('workSessionManager.skip', () => this.runCommand('skip')),
+            vscode.commands.registerCommand('workSessionManager.addTime', (minutes?: number) =>
+                this.runCommand('addTime', this.getAdjustmentSeconds(minutes))),
+            vscode.commands.registerCommand('workSessionManager.subtractTime', (minutes?: number) =>
+                this.runCommand('subtractTime', this.getAdjustmentSeconds(minutes))),
+            vscode.commands.registerCommand('workSessionManager.setRemainingTime', () => this.promptRemainingTime()),
+            vscode.commands.registerCommand('workSessionManager.selectPreset', () => this.selectPreset()),
+            vscode.commands.registerCommand('workSessionManager.showDashboard', () => this.dashboardPanel.show()),
+            vscode.commands.registerCommand('workSessionManager.showProjectDashboard', () => this.showProjectDashboard()),
+            vscode.commands.registerCommand('workSessionManager.changeLabel', () => this.changeLabel()),
+            vscode.commands.registerCommand('workSessionManager.logInterruption', () => this.logInterruption()),
+            vscode.commands.registerCommand('workSessionManager.logInternalInterruption', (note?: unknown) =>
+                this.logInterruption('internal', note)),
+            vscode.commands.registerCommand('workSessionManager.logExternalInterruption', (note?: unknown) =>
+                this.logInterruption('external', note)),
+            vscode.commands.registerCommand('workSessionManager.showMenu', () => this.showMenu()),
+            vscode.commands.registerCommand('workSessionManager.addTask', () => this.addTask()),
+            vscode.commands.registerCommand('workSessionManager.showTasks', () => this.showTasks()),
+            vscode.commands.registerCommand('workSessionManager.completeTask', () => this.completeActiveTask())
         ];
 
         this.disposables.push(...commands);
     }
 
+    /**
+     * Runs a timer command on the shared timer
+     * Only the leader window drives the timer; other windows forward the command to it
+     */
+    private async runCommand(command: TimerCommand, argument?: number, text?: string): Promise<void> {
+        await this.ready;
+        
+        const workspace = this.getWorkspaceAttribution();
+        if (this.windowCoordinator.isLeader()) {
+            this.executeCommand(command, argument, workspace, text);
+        } else {
+            // The leader may not have this project open, so phases started here take the branch along
+            if (WorkSessionManagerExtension.PHASE_STARTING_COMMANDS.includes(command)) {
+                workspace.branch = await this.gitTracker.getBranch();
+            }
+            await this.windowCoordinator.sendCommand(command, argument, workspace, text);
+        }
+    }
+
+    /**
+     * Executes a timer command in this window
+     * Phases started by a command are credited to the project of the window that issued it, and
+     * work sessions started or relabeled with a label as text take it (an empty one removes the label)
+     */
+    private executeCommand(command: TimerCommand, argument?: number, workspace?: WorkspaceAttribution, text?: string): void {
+        if (workspace && WorkSessionManagerExtension.PHASE_STARTING_COMMANDS.includes(command)) {
+            this.timerManager.setWorkspace(workspace);
+        }
+        
+        if (text !== undefined && (command === 'startSession' || command === 'setLabel')) {
+            this.timerManager.setLabel(text);
+        }
+        
+        switch (command) {
+            case 'startSession':
+                this.startSession();
+                break;
+            case 'startRest':
+                this.startRest();
+                break;
+            case 'startLongBreak':
+                this.startLongBreak();
+                break;
+            case 'takeBreak':
+                this.takeBreak();
+                break;
+            case 'pause':
+                this.pause();
+                break;
+            case 'resume':
+                this.resume();
+                break;
+            case 'reset':
+                this.reset();
+                break;
+            case 'skip':
+                this.skip();
+                break;
+            case 'addTime':
+                this.adjustTime(argument ?? 0);
+                break;
+            case 'subtractTime':
+                this.adjustTime(-(argument ?? 0));
+                break;
+            case 'setRemainingTime':
+                if (argument !== undefined) {
+                    this.setRemainingTime(argument);
+                }
+                break;
+            case 'breakViolation':
+                this.timerManager.recordBreakViolation();
+                break;
+            case 'setLabel':
+                this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
+                this.saveState();
+                break;
+            case 'internalInterruption':
+                this.recordInterruption('internal', text);
+                break;
+            case 'externalInterruption':
+                this.recordInterruption('external', text);
+                break;
+        }
+    }
+
     /**
      * Sets up event handlers for timer and configuration changes
      */
@@ -84,6 +296,73 @@ class WorkSessionManagerExtension {
             this.handleTimerCompletion(eventData);
         });
 
+        // Session history handler
+        this.timerManager.on('phaseEnd', (entry: HistoryEntry) => {
+            this.recordPhase(entry);
+        });
+
+        // Window coordination handlers
+        this.windowCoordinator.on('command', (command: TimerCommand, argument?: number, workspace?: WorkspaceAttribution, text?: string) => {
+            this.executeCommand(command, argument, workspace, text);
+        });
+
+        this.windowCoordinator.on('leadershipChange', (isLeader: boolean) => {
+            this.handleLeadershipChange(isLeader);
+        });
+
+        this.windowCoordinator.on('notification', (type: string) => {
+            this.showWindowNotification(type);
+        });
+
+        this.windowCoordinator.on('sync', () => {
+            this.mirrorSharedTimer();
+        });
+
+        // Idle detection handlers
+        this.activityMonitor.on('idle', (lastActivity: Date) => {
+            this.handleIdle(lastActivity);
+        });
+
+        this.activityMonitor.on('active', () => {
+            this.handleActivityReturn();
+        });
+
+        // Focus tracking handlers
+        this.focusTracker.on('away', (since: Date) => {
+            this.handleFocusLoss(since);
+        });
+
+        this.focusTracker.on('back', (returnedAt: Date) => {
+            this.handleFocusReturn(returnedAt);
+        });
+
+        // Break enforcement handlers
+        this.breakScreen.on('leave', () => {
+            this.handleBreakViolation();
+        });
+
+        this.breakScreen.on('skip', () => {
+            this.runCommand('skip');
+        });
+
+        // Git handlers
+        this.gitTracker.on('commit', () => {
+            this.updateCommitTrailers();
+        });
+
+        // Task list handler
+        this.taskStore.on('change', () => {
+            this.statusBarController.setActiveTask(this.taskStore.getActiveTask());
+            this.timerView.refresh();
+        });
+
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(event => {
+            // Output channels change on their own
+            if (event.contentChanges.length > 0 && event.document.uri.scheme !== 'output') {
+                this.handleBreakViolation();
+            }
+        }));
+
         // Configuration change handler
         const configChangeDisposable = this.configurationManager.onConfigurationChanged((config) => {
             this.handleConfigurationChange(config);
@@ -98,6 +377,10 @@ class WorkSessionManagerExtension {
     private handleTimerStateChange(eventData: TimerEventData): void {
         const context = this.timerManager.getCurrentState();
         this.statusBarController.updateDisplay(context);
+        this.timerView.update(context);
+        this.updateBreakScreen(context);
+        this.updateDoNotDisturb(context, !!eventData.isTransition);
+        this.handlePhaseChange(context);
         
         // Save state periodically
         this.saveState();
@@ -107,54 +390,315 @@ class WorkSessionManagerExtension {
      * Handles timer completion events
      */
     private async handleTimerCompletion(eventData: TimerEventData): Promise<void> {
+        // Follower windows only mirror the timer; the leader handles completions
+        if (!this.windowCoordinator.isLeader()) {
+            return;
+        }
+        
         const config = this.configurationManager.getConfiguration();
         
         if (eventData.state === TimerState.WORK_SESSION) {
             // Work session completed
             this.sessionCount++;
-            this.totalWorkTime += config.sessionDuration * 60; // Convert to seconds
+            this.totalWorkTime += eventData.duration ?? config.sessionDuration * 60; // Convert to seconds
             
             // Play audio notification
-            await this.audioManager.playSessionEndSound();
+            await this.playPhaseEndSound(eventData);
             
             // Show completion notification
-            this.statusBarController.showSessionComplete();
+            if (eventData.sequenceStep) {
+                this.statusBarController.showPhaseComplete(eventData.sequenceStep.name);
+            } else {
+                this.statusBarController.showSessionComplete();
+            }
+            this.windowCoordinator.broadcast('sessionComplete');
             
-            // Auto-start rest if enabled
-            if (config.autoStartRest) {
-                setTimeout(() => {
-                    this.startRest();
+            // A stopped flow session goes into a break proportional to the time worked, if enabled
+            // A custom sequence moves on to its next step; otherwise auto-start rest if enabled, taking a long break every few sessions
+            // In overtime mode the timer counts up instead, until the user takes the break (unless the session was skipped)
+            if (eventData.countUp) {
+                if (config.autoStartRest) {
+                    this.startRest(this.getFlowtimeBreak(eventData.duration ?? 0, config));
+                }
+            } else if (this.timerManager.hasSequence()) {
+                this.autoStartNextStep(config);
+            } else if (config.autoStartRest && (!config.overtimeEnabled || eventData.skipped)) {
+                const takeLongBreak = this.isLongBreakDue(config);
+                this.clock.setTimeout(() => {
+                    if (takeLongBreak) {
+                        this.startLongBreak();
+                    } else {
+                        this.startRest();
+                    }
                 }, 2000); // Small delay to show completion message
             }
             
-        } else if (eventData.state === TimerState.REST_PERIOD) {
-            // Rest period completed
-            await this.audioManager.playRestEndSound();
-            this.statusBarController.showRestComplete();
+        } else if (eventData.state === TimerState.REST_PERIOD || eventData.state === TimerState.LONG_BREAK) {
+            // Rest period or long break completed
+            await this.playPhaseEndSound(eventData);
+            if (eventData.sequenceStep) {
+                this.statusBarController.showPhaseComplete(eventData.sequenceStep.name);
+                this.windowCoordinator.broadcast(eventData.state === TimerState.LONG_BREAK ? 'longBreakComplete' : 'restComplete');
+            } else if (eventData.state === TimerState.LONG_BREAK) {
+                this.statusBarController.showLongBreakComplete();
+                this.windowCoordinator.broadcast('longBreakComplete');
+            } else {
+                this.statusBarController.showRestComplete();
+                this.windowCoordinator.broadcast('restComplete');
+            }
             
-            // Auto-start work session if enabled
-            if (config.autoStartWork) {
-                setTimeout(() => {
+            // Auto-start the next step of a custom sequence, or a work session, if enabled
+            if (this.timerManager.hasSequence()) {
+                this.autoStartNextStep(config);
+            } else if (config.autoStartWork) {
+                this.clock.setTimeout(() => {
                     this.startSession();
+                    this.recordFocusLossIfAway();
+                    this.pauseIfIdle();
                 }, 2000); // Small delay to show completion message
             }
         }
         
         // Update statistics
-        await this.stateManager.updateStatistics(this.sessionCount, this.totalWorkTime);
+        await this.stateManager.updateStatistics(this.sessionCount, this.totalWorkTime, this.totalOvertime);
+    }
+
+    /**
+     * Plays the chime for the end of a phase; steps of a custom sequence may pick another chime or none
+     */
+    private async playPhaseEndSound(eventData: TimerEventData): Promise<void> {
+        const sound = eventData.sequenceStep?.sound ?? (eventData.state === TimerState.WORK_SESSION ? 'work' : 'rest');
+        if (sound === 'work') {
+            await this.audioManager.playSessionEndSound();
+        } else if (sound === 'rest') {
+            await this.audioManager.playRestEndSound();
+        }
+    }
+
+    /**
+     * Starts the next step of the custom sequence after a short delay, if auto-start is enabled for its kind
+     * Work steps follow autoStartWork and breaks autoStartRest; overtime waits for the user to take the break
+     */
+    private autoStartNextStep(config: ExtensionConfig): void {
+        const nextStep = this.timerManager.getNextStep();
+        if (!nextStep || this.timerManager.isOvertime()) {
+            return;
+        }
+        
+        const autoStart = nextStep.kind === 'work' ? config.autoStartWork : config.autoStartRest;
+        if (autoStart) {
+            this.clock.setTimeout(() => {
+                this.startNextPhase();
+                this.recordFocusLossIfAway();
+                this.pauseIfIdle();
+            }, 2000); // Small delay to show completion message
+        }
+    }
+
+    /**
+     * Records a finished or abandoned phase in the session history
+     */
+    private async recordPhase(entry: HistoryEntry): Promise<void> {
+        // Only the window that owns the timer writes history, so phases are recorded once
+        if (!this.windowCoordinator.isLeader()) {
+            return;
+        }
+        
+        try {
+            if (entry.phase === TimerState.OVERTIME) {
+                this.totalOvertime += entry.actualDuration;
+                await this.stateManager.updateStatistics(this.sessionCount, this.totalWorkTime, this.totalOvertime);
+            }
+            
+            // Credit the commits made meanwhile, in any window, to the work session
+            if (entry.phase === TimerState.WORK_SESSION || entry.phase === TimerState.OVERTIME) {
+                const commits = this.gitTracker.getCommits(entry.startTime, entry.endTime);
+                entry.commits = commits.length > 0 ? commits : undefined;
+            }
+            
+            await this.stateManager.addHistoryEntry(entry);
+            if (entry.phase === TimerState.WORK_SESSION && (entry.status === 'completed' || entry.status === 'skipped')) {
+                const task = await this.taskStore.creditSession();
+                if (task) {
+                    this.reviewTaskEstimate(task);
+                }
+            }
+            this.updateGoalProgress(entry.phase === TimerState.WORK_SESSION);
+            this.dashboardPanel.refresh();
+            this.timerView.refresh();
+        } catch (error) {
+            console.warn('Work Session Manager: Failed to record session history:', error);
+        }
+    }
+
+    /**
+     * Handles this window gaining or losing ownership of the shared timer
+     */
+    private async handleLeadershipChange(isLeader: boolean): Promise<void> {
+        if (isLeader) {
+            // Take over from the previous leader, crediting anything that expired meanwhile
+            const restoredContext = await this.stateManager.restoreState(this.configurationManager.getConfiguration());
+            const stats = this.stateManager.getStatistics();
+            
+            this.sessionCount = stats.sessionCount;
+            this.totalWorkTime = stats.totalWorkTime;
+            this.totalOvertime = stats.totalOvertime;
+            this.mirroredStateKey = undefined;
+            
+            if (restoredContext) {
+                this.timerManager.restore(restoredContext);
+            }
+            this.saveState();
+            console.log('Work Session Manager: This window now owns the shared timer');
+        } else {
+            this.mirrorSharedTimer();
+            console.log('Work Session Manager: Another window now owns the shared timer');
+        }
+    }
+
+    /**
+     * Mirrors the timer owned by the leader window, if it changed
+     */
+    private mirrorSharedTimer(): void {
+        const sharedContext = this.stateManager.readState();
+        if (!sharedContext) {
+            return;
+        }
+        
+        const stateKey = [
+            sharedContext.currentState,
+            sharedContext.pausedFrom,
+            sharedContext.sessionStartTime?.getTime(),
+            sharedContext.phaseEndTime?.getTime(),
+            sharedContext.focusLosses,
+            sharedContext.timeAway,
+            sharedContext.breakViolations,
+            sharedContext.label,
+            sharedContext.interruptions?.length,
+            this.timerManager.isRunning() ? undefined : sharedContext.remainingTime
+        ].join('|');
+        
+        if (stateKey !== this.mirroredStateKey) {
+            this.mirroredStateKey = stateKey;
+            this.timerManager.restore(sharedContext);
+        }
+    }
+
+    /**
+     * Shows a notification broadcast by the leader window
+     */
+    private showWindowNotification(type: string): void {
+        // The leader has recorded the finished phase, and credited it to the active task, by now
+        this.updateGoalProgress();
+        this.dashboardPanel.refresh();
+        this.timerView.refresh();
+        this.statusBarController.setActiveTask(this.taskStore.getActiveTask());
+        
+        switch (type) {
+            case 'sessionComplete':
+                this.statusBarController.showSessionComplete();
+                break;
+            case 'restComplete':
+                this.statusBarController.showRestComplete();
+                break;
+            case 'longBreakComplete':
+                this.statusBarController.showLongBreakComplete();
+                break;
+        }
+    }
+
+    /**
+     * Recalculates progress towards the daily and weekly goals from the session history
+     * Celebrates goals that were just reached when asked to (only the leader does, so once)
+     */
+    private updateGoalProgress(celebrate: boolean = false): void {
+        const config = this.configurationManager.getConfiguration();
+        const statistics = this.statisticsCalculator.calculate(this.stateManager.getHistory(), config.dailySessionGoal);
+        const progress: GoalProgress = {
+            todaySessions: statistics.todaySessions,
+            dailySessionGoal: config.dailySessionGoal,
+            weekFocusTime: statistics.weekFocusTime,
+            weeklyFocusGoal: config.weeklyFocusGoal,
+            streak: statistics.currentStreak
+        };
+        
+        if (celebrate && this.goalProgress) {
+            this.celebrateGoals(this.goalProgress, progress);
+        }
+        
+        this.goalProgress = progress;
+        this.statusBarController.setGoalProgress(
+            config.dailySessionGoal > 0 || config.weeklyFocusGoal > 0 ? progress : null
+        );
+    }
+
+    /**
+     * Shows a notification for each goal crossed between two progress snapshots
+     */
+    private celebrateGoals(previous: GoalProgress, current: GoalProgress): void {
+        const dailyGoal = current.dailySessionGoal;
+        if (dailyGoal > 0 && previous.todaySessions < dailyGoal && current.todaySessions >= dailyGoal) {
+            const streak = current.streak > 1 ? ` That's ${current.streak} days in a row.` : '';
+            vscode.window.showInformationMessage(`🎉 Daily goal reached: ${current.todaySessions} work sessions today!${streak}`);
+        }
+        
+        const weeklyGoal = current.weeklyFocusGoal * 3600;
+        if (weeklyGoal > 0 && previous.weekFocusTime < weeklyGoal && current.weekFocusTime >= weeklyGoal) {
+            vscode.window.showInformationMessage(`🎉 Weekly goal reached: ${current.weeklyFocusGoal} hours of focus this week!`);
+        }
+    }
+
+    /**
+     * Refreshes day-based progress at local midnight, so daily counters start over
+     */
+    private scheduleDayRollover(): void {
+        const now = this.clock.now();
+        const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+        
+        this.dayRolloverHandle = this.clock.setTimeout(() => {
+            this.updateGoalProgress();
+            this.dashboardPanel.refresh();
+            this.timerView.refresh();
+            this.scheduleDayRollover();
+        }, nextMidnight.getTime() - now.getTime() + 1000); // Just past midnight
+    }
+
+    /**
+     * Computes the rest earned by a flow session: a share of the time worked, within the configured bounds
+     */
+    private getFlowtimeBreak(workSeconds: number, config: ExtensionConfig): number {
+        const restSeconds = Math.round(workSeconds / config.flowtimeBreakRatio);
+        return Math.min(config.flowtimeMaxBreak * 60, Math.max(config.flowtimeMinBreak * 60, restSeconds));
+    }
+
+    /**
+     * Checks whether the session just completed earns a long break
+     */
+    private isLongBreakDue(config: ExtensionConfig): boolean {
+        return this.sessionCount > 0 && this.sessionCount % config.longBreakInterval === 0;
     }
 
     /**
      * Handles configuration changes
      */
     private handleConfigurationChange(config: ExtensionConfig): void {
-        // Update timer durations
-        this.timerManager.updateDurations(config.sessionDuration, config.restDuration);
+        // Update timer durations; a newly selected preset may leave the running phase to finish as planned
+        const presetChanged = config.activePreset !== this.activePreset;
+        this.activePreset = config.activePreset;
+        this.timerManager.updateDurations(
+            config.sessionDuration,
+            config.restDuration,
+            config.longBreakDuration,
+            !presetChanged || config.presetRunningPhase === 'adjust'
+        );
+        this.timerManager.setOvertimeEnabled(config.overtimeEnabled);
+        this.timerManager.setSequence(config.phaseSequence);
         
         // Update status bar theme and visibility
         this.statusBarController.applyTheme({
             workSessionColor: config.workSessionColor,
-            restPeriodColor: config.restPeriodColor
+            restPeriodColor: config.restPeriodColor,
+            longBreakColor: config.longBreakColor
         });
         
         this.statusBarController.toggleVisibility({
@@ -162,32 +706,105 @@ class WorkSessionManagerExtension {
             showStatusDot: config.showStatusDot,
             showPausePlayButton: config.showPausePlayButton
         });
+        this.statusBarController.setPresetName(config.activePreset);
         
         // Update audio settings
         this.audioManager.setAudioEnabled(config.soundEnabled);
+        this.updateIdleDetection(config);
+        this.breakEnforcement = config.breakEnforcement;
+        this.updateBreakScreen(this.timerManager.getCurrentState());
+        this.doNotDisturbSettings = this.getDoNotDisturbSettings(config);
+        this.updateDoNotDisturb(this.timerManager.getCurrentState());
+        if (config.commitTrailer !== this.commitTrailer) {
+            this.commitTrailer = config.commitTrailer;
+            if (this.commitTrailer) {
+                this.updateCommitTrailers();
+            } else {
+                this.gitTracker.removeCommitTrailers();
+            }
+        }
+        
+        // Goals may have changed
+        this.updateGoalProgress();
         
         // Force status bar update
         this.statusBarController.forceUpdate();
     }
 
     /**
-     * Starts a work session
+     * Starts a work session, counting up in flowtime mode
      */
     private startSession(): void {
-        this.timerManager.startSession();
-        this.statusBarController.showTimerStarted(true);
+        if (this.configurationManager.getConfigValue('timerMode') === 'flowtime') {
+            this.timerManager.startFlowSession();
+        } else {
+            this.timerManager.startSession();
+        }
+        this.announcePhaseStart();
+        this.saveState();
+    }
+
+    /**
+     * Starts a rest period, of the configured length unless given in seconds
+     */
+    private startRest(durationSeconds?: number): void {
+        this.timerManager.startRest(durationSeconds);
+        this.announcePhaseStart();
         this.saveState();
     }
 
     /**
-     * Starts a rest period
+     * Starts a long break
      */
-    private startRest(): void {
-        this.timerManager.startRest();
-        this.statusBarController.showTimerStarted(false);
+    private startLongBreak(): void {
+        this.timerManager.startLongBreak();
+        this.announcePhaseStart();
         this.saveState();
     }
 
+    /**
+     * Starts the next step of the custom phase sequence
+     */
+    private startNextPhase(): void {
+        if (this.timerManager.startNextPhase()) {
+            this.announcePhaseStart();
+            this.saveState();
+        }
+    }
+
+    /**
+     * Shows which phase just started
+     */
+    private announcePhaseStart(): void {
+        const context = this.timerManager.getCurrentState();
+        if (context.sequenceStep) {
+            this.statusBarController.showPhaseStarted(context.sequenceStep.name);
+        } else if (context.currentState === TimerState.LONG_BREAK) {
+            this.statusBarController.showLongBreakStarted();
+        } else {
+            this.statusBarController.showTimerStarted(context.currentState === TimerState.WORK_SESSION);
+        }
+    }
+
+    /**
+     * Ends a work session or its overtime with a rest period, or a long break when one is due
+     * A flow session is stopped instead and followed by its proportional break
+     */
+    private takeBreak(): void {
+        if (this.timerManager.isFlowSession()) {
+            // The break is started on completion when rest periods start on their own
+            const config = this.configurationManager.getConfiguration();
+            const workedTime = this.timerManager.stopFlowSession();
+            if (!config.autoStartRest) {
+                this.startRest(this.getFlowtimeBreak(workedTime, config));
+            }
+        } else if (!this.timerManager.hasSequence() && this.isLongBreakDue(this.configurationManager.getConfiguration())) {
+            this.startLongBreak();
+        } else {
+            this.startRest();
+        }
+    }
+
     /**
      * Pauses the current timer
      */
@@ -207,61 +824,986 @@ class WorkSessionManagerExtension {
     }
 
     /**
-     * Resets the timer
+     * Starts or stops watching for inactivity as configured
      */
-    private reset(): void {
-        this.timerManager.reset();
-        this.statusBarController.showTimerReset();
+    private updateIdleDetection(config: ExtensionConfig): void {
+        if (config.idleDetection === 'off') {
+            this.activityMonitor.stop();
+        } else {
+            this.activityMonitor.start(config.idleThreshold * 60);
+        }
+    }
+
+    /**
+     * Pauses a running work session from the last activity on when the user has gone idle
+     * Only the window that owns the timer pauses it; the others mirror the pause
+     */
+    private handleIdle(lastActivity: Date): void {
+        if (!this.windowCoordinator.isLeader() || !this.timerManager.pauseWhileIdle(lastActivity)) {
+            return;
+        }
+        
+        this.statusBarController.showIdlePaused();
         this.saveState();
     }
 
     /**
-     * Saves the current state
+     * Pauses a work session that started on its own while the user is away
      */
-    private async saveState(): Promise<void> {
-        const context = this.timerManager.getCurrentState();
-        await this.stateManager.saveState(context, this.sessionCount, this.totalWorkTime);
+    private pauseIfIdle(): void {
+        if (this.activityMonitor.isIdle()) {
+            this.handleIdle(this.activityMonitor.getLastActivity());
+        }
     }
 
     /**
-     * Restores statistics from previous sessions but starts with a fresh timer
+     * Resumes a work session that paused while the user was away, right away or once they confirm
      */
-    private async restoreState(): Promise<void> {
+    private async handleActivityReturn(): Promise<void> {
+        const context = this.timerManager.getCurrentState();
+        if (!context.idlePaused || this.promptingResume) {
+            return;
+        }
+        
+        if (this.configurationManager.getConfigValue('idleDetection') === 'autoResume') {
+            await this.runCommand('resume');
+            return;
+        }
+        
+        const awayMinutes = context.pausedAt ?
+            Math.max(1, Math.round((this.clock.now().getTime() - context.pausedAt.getTime()) / 60000)) : 0;
+        this.promptingResume = true;
         try {
-            // Only restore statistics, not the timer state
-            const stats = this.stateManager.getStatistics();
+            const choice = await vscode.window.showInformationMessage(
+                `Work Session Manager: Welcome back! Your work session paused while you were away for ${awayMinutes} ` +
+                `${awayMinutes === 1 ? 'minute' : 'minutes'}, which won't count as focus time.`,
+                'Resume Session'
+            );
             
-            this.sessionCount = stats.sessionCount;
-            this.totalWorkTime = stats.totalWorkTime;
+            if (choice === 'Resume Session' && this.timerManager.getCurrentState().idlePaused) {
+                await this.runCommand('resume');
+            }
+        } finally {
+            this.promptingResume = false;
+        }
+    }
+
+    /**
+     * Counts leaving VS Code against a running work session and schedules the away reminder
+     * Only the window that owns the timer counts it; the others mirror the count
+     */
+    private handleFocusLoss(since: Date): void {
+        if (!this.windowCoordinator.isLeader() || this.timerManager.getCurrentState().currentState !== TimerState.WORK_SESSION) {
+            return;
+        }
+        
+        this.timerManager.recordFocusLoss(since);
+        this.scheduleAwayReminder(since);
+    }
+
+    /**
+     * Counts a work session that started on its own while the user is away from VS Code
+     */
+    private recordFocusLossIfAway(): void {
+        const awaySince = this.focusTracker.getAwaySince();
+        if (awaySince) {
+            this.handleFocusLoss(awaySince);
+        }
+    }
+
+    /**
+     * Adds the time away to the work session once the user is back in VS Code
+     */
+    private handleFocusReturn(returnedAt: Date): void {
+        this.clearAwayReminder();
+        if (this.windowCoordinator.isLeader()) {
+            this.timerManager.recordFocusReturn(returnedAt);
+        }
+    }
+
+    /**
+     * Reminds the user of the running work session once they have been away for the configured time
+     */
+    private scheduleAwayReminder(since: Date): void {
+        this.clearAwayReminder();
+        const minutes = this.configurationManager.getConfigValue('awayReminder');
+        if (minutes <= 0) {
+            return;
+        }
+        
+        const delay = Math.max(0, since.getTime() + minutes * 60 * 1000 - this.clock.now().getTime());
+        this.awayReminderHandle = this.clock.setTimeout(async () => {
+            this.awayReminderHandle = null;
+            if (!this.focusTracker.isAway() || this.timerManager.getCurrentState().currentState !== TimerState.WORK_SESSION) {
+                return;
+            }
             
-            // Check if auto-start is enabled
-            const config = this.configurationManager.getConfiguration();
-            if (config.autoStartOnOpen) {
-                // Auto-start work session
-                this.timerManager.startSession();
-                this.statusBarController.showTimerStarted(true);
-                this.saveState();
-                console.log('Work Session Manager: Auto-started work session');
-            } else {
-                // Start fresh - timer begins in idle state
-                this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
-                console.log('Work Session Manager: Started fresh session');
+            const choice = await vscode.window.showInformationMessage(
+                `Work Session Manager: You have been away from VS Code for ${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ` +
+                'of your work session. Ready to get back to it?',
+                'Pause Session'
+            );
+            
+            if (choice === 'Pause Session') {
+                await this.runCommand('pause');
             }
-        } catch (error) {
-            console.warn('Work Session Manager: Failed to restore statistics:', error);
-            // Continue with fresh state
-            this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
+        }, delay);
+    }
+
+    /**
+     * Cancels a pending away reminder
+     */
+    private clearAwayReminder(): void {
+        if (this.awayReminderHandle) {
+            this.clock.clearTimeout(this.awayReminderHandle);
+            this.awayReminderHandle = null;
         }
     }
 
     /**
-     * Disposes of all resources
+     * Opens, updates or closes the break screen to match the timer, in strict break enforcement
+     */
+    private updateBreakScreen(context: TimerContext): void {
+        if (this.breakEnforcement !== 'strict' || !this.isBreakRunning(context)) {
+            this.breakScreen.close();
+            return;
+        }
+        
+        const label = context.sequenceStep?.name ?? (context.currentState === TimerState.LONG_BREAK ? 'Long Break' : 'Rest Period');
+        this.breakScreen.show(label, this.timerManager.formatTime(context.remainingTime));
+    }
+
+    /**
+     * Handles the user working on during a break: strict enforcement brings the break screen back,
+     * reminding enforcement warns, and both count a break violation, at most once a minute
+     */
+    private handleBreakViolation(): void {
+        const context = this.timerManager.getCurrentState();
+        if (this.breakEnforcement === 'off' || !this.isBreakRunning(context)) {
+            return;
+        }
+        
+        if (this.breakEnforcement === 'strict') {
+            this.updateBreakScreen(context);
+            this.breakScreen.reveal();
+        }
+        
+        const now = this.clock.now().getTime();
+        if (now - this.lastBreakViolation < WorkSessionManagerExtension.BREAK_VIOLATION_INTERVAL) {
+            return;
+        }
+        
+        this.lastBreakViolation = now;
+        this.runCommand('breakViolation');
+        if (this.breakEnforcement === 'remind') {
+            vscode.window.showWarningMessage(
+                `Work Session Manager: You are on a break, with ${this.timerManager.formatTime(context.remainingTime)} left. ` +
+                'Step away from the editor for a while.'
+            );
+        }
+    }
+
+    /**
+     * Checks if a rest period or long break is counting down
+     */
+    private isBreakRunning(context: TimerContext): boolean {
+        return context.currentState === TimerState.REST_PERIOD || context.currentState === TimerState.LONG_BREAK;
+    }
+
+    /**
+     * Turns do not disturb on while a work session runs, and off once it ends, pauses or is reset
+     * Notifications are silenced by the window owning the timer only, as the mode applies to every window
+     */
+    private updateDoNotDisturb(context: TimerContext, phaseCompleted: boolean = false): void {
+        const { doNotDisturb, doNotDisturbPanels, doNotDisturbNotifications } = this.doNotDisturbSettings;
+        if (context.currentState === TimerState.WORK_SESSION && doNotDisturb !== 'off') {
+            this.doNotDisturb.enter(doNotDisturb, doNotDisturbPanels, doNotDisturbNotifications && this.windowCoordinator.isLeader());
+        } else if (this.doNotDisturb.isActive()) {
+            this.leaveDoNotDisturb(phaseCompleted || this.isBreakRunning(context));
+        }
+    }
+
+    /**
+     * Restores the workbench after a work session and, at a break, points to the notifications silenced meanwhile
+     */
+    private async leaveDoNotDisturb(atBreak: boolean): Promise<void> {
+        const silenced = await this.doNotDisturb.exit();
+        if (!silenced || !atBreak) {
+            return;
+        }
+        
+        const choice = await vscode.window.showInformationMessage(
+            'Work Session Manager: Notifications are back on. Any that arrived during your work session are in the notification center.',
+            'Show Notifications'
+        );
+        
+        if (choice === 'Show Notifications') {
+            await vscode.commands.executeCommand('notifications.showList');
+        }
+    }
+
+    /**
+     * Picks the do not disturb settings out of the configuration
+     */
+    private getDoNotDisturbSettings(config: ExtensionConfig): DoNotDisturbSettings {
+        return {
+            doNotDisturb: config.doNotDisturb,
+            doNotDisturbPanels: config.doNotDisturbPanels,
+            doNotDisturbNotifications: config.doNotDisturbNotifications
+        };
+    }
+
+    /**
+     * Follows phases starting and ending: the window owning the timer reads the branch of a new phase,
+     * and every window updates the session count in its commit messages
+     */
+    private handlePhaseChange(context: TimerContext): void {
+        const phaseStart = context.sessionStartTime?.getTime();
+        if (phaseStart === this.lastPhaseStart) {
+            return;
+        }
+        
+        this.lastPhaseStart = phaseStart;
+        if (phaseStart !== undefined && this.windowCoordinator.isLeader()) {
+            this.refreshBranch();
+        }
+        this.updateCommitTrailers();
+    }
+
+    /**
+     * Credits the current phase with the branch checked out in its project, if this window has the project
+     * Phases started in another project keep the branch sent along by the window that started them
+     */
+    private async refreshBranch(): Promise<void> {
+        const workspace = this.timerManager.getCurrentState().workspace;
+        const { workspaceName, workspaceFolder } = this.getWorkspaceAttribution();
+        if (workspace && (workspace.workspaceName !== workspaceName || workspace.workspaceFolder !== workspaceFolder)) {
+            return;
+        }
+        
+        const branch = await this.gitTracker.getBranch();
+        this.timerManager.setWorkspace({ ...this.timerManager.getCurrentState().workspace, branch });
+    }
+
+    /**
+     * Keeps the Focus-Sessions trailer of the commit messages in this window up to date, if enabled
+     */
+    private updateCommitTrailers(): void {
+        if (!this.commitTrailer) {
+            return;
+        }
+        
+        this.gitTracker.updateCommitTrailers((since, root) => this.countFocusSessions(since, root));
+    }
+
+    /**
+     * Counts the work sessions of the project a repository belongs to that started since its last commit,
+     * including a running one; reset and void sessions do not count
+     */
+    private countFocusSessions(since: Date | undefined, root: vscode.Uri): number {
+        const { workspaceName, workspaceFolder } = this.getWorkspaceAttribution(root);
+        const project = workspaceFolder ?? workspaceName;
+        const recorded = this.stateManager.getHistory({ from: since, phase: TimerState.WORK_SESSION, project })
+            .filter(entry => entry.status !== 'reset' && entry.status !== 'void').length;
+        
+        const context = this.timerManager.getCurrentState();
+        const phase = context.currentState === TimerState.PAUSED ? context.pausedFrom : context.currentState;
+        const running = phase === TimerState.WORK_SESSION && context.sessionStartTime !== undefined &&
+            (!since || context.sessionStartTime >= since) &&
+            (!context.workspace || (context.workspace.workspaceFolder ?? context.workspace.workspaceName) === project);
+        
+        return recorded + (running ? 1 : 0);
+    }
+
+    /**
+     * Converts the minutes given to a time adjustment command, or the configured step, to seconds
+     */
+    private getAdjustmentSeconds(minutes?: number): number {
+        const step = typeof minutes === 'number' && minutes > 0 ?
+            minutes : this.configurationManager.getConfigValue('timeAdjustmentStep');
+        return Math.round(step * 60);
+    }
+
+    /**
+     * Asks for the exact time left in the current phase, as mm:ss or e.g. 15m
+     */
+    private async promptRemainingTime(): Promise<void> {
+        await this.ready;
+        
+        if (!this.timerManager.canAdjustTime()) {
+            vscode.window.showInformationMessage('Work Session Manager: Start a work session or break to set its remaining time');
+            return;
+        }
+        
+        const input = await vscode.window.showInputBox({
+            prompt: 'Time left in the current phase',
+            placeHolder: 'mm:ss or e.g. 15m',
+            value: this.timerManager.formatTime(this.timerManager.getCurrentState().remainingTime),
+            validateInput: value => this.timerManager.parseTime(value) === null ?
+                'Enter a time such as 12:30, 15m or 1h30m' : undefined
+        });
+        
+        const seconds = input === undefined ? null : this.timerManager.parseTime(input);
+        if (seconds !== null) {
+            await this.runCommand('setRemainingTime', seconds);
+        }
+    }
+
+    /**
+     * Starts a work session labeled with what it is for: the label given, e.g. by a keybinding,
+     * or else the one the user picks when asked; if neither is given, e.g. the picker is dismissed, the last label stays
+     */
+    private async startLabeledSession(label?: unknown): Promise<void> {
+        let sessionLabel = typeof label === 'string' ? label.trim() : undefined;
+        
+        if (sessionLabel === undefined && this.configurationManager.getConfigValue('askForSessionLabel')) {
+            await this.ready;
+            sessionLabel = await this.pickLabel('What is this session for? Pick a recent label or type a new one');
+        }
+        
+        await this.runCommand('startSession', undefined, sessionLabel);
+    }
+
+    /**
+     * Changes the label of the current work session, and of the ones that follow it
+     */
+    private async changeLabel(): Promise<void> {
+        await this.ready;
+        
+        if (this.timerManager.getCurrentState().currentState === TimerState.IDLE) {
+            vscode.window.showInformationMessage('Work Session Manager: Start a work session to label it');
+            return;
+        }
+        
+        const label = await this.pickLabel('What are you working on? Pick a recent label or type a new one');
+        if (label !== undefined) {
+            await this.runCommand('setLabel', undefined, label);
+        }
+    }
+
+    /**
+     * Logs an interruption of the current work session, asking for its type unless given and for a note
+     * unless one is given, e.g. by a keybinding
+     */
+    private async logInterruption(type?: InterruptionType, note?: unknown): Promise<void> {
+        await this.ready;
+        
+        if (!this.timerManager.isWorkSession()) {
+            vscode.window.showInformationMessage('Work Session Manager: Interruptions are logged during work sessions');
+            return;
+        }
+        
+        const interruptionType = type ?? await this.pickInterruptionType();
+        if (!interruptionType) {
+            return;
+        }
+        
+        const interruptionNote = typeof note === 'string' ? note.trim() : await vscode.window.showInputBox({
+            prompt: 'What interrupted you? (optional)',
+            placeHolder: interruptionType === 'internal' ? 'e.g. Checked the news' : 'e.g. Call from support'
+        });
+        if (interruptionNote === undefined) {
+            return;
+        }
+        
+        await this.runCommand(interruptionType === 'internal' ? 'internalInterruption' : 'externalInterruption', undefined, interruptionNote);
+    }
+
+    /**
+     * Asks whether an interruption came from the user or from someone else
+     */
+    private async pickInterruptionType(): Promise<InterruptionType | undefined> {
+        const voids = this.configurationManager.getConfigValue('voidOnExternalInterruption');
+        const items: InterruptionPickItem[] = [
+            { label: "Internal (')", description: 'You turned to something else', interruptionType: 'internal' },
+            {
+                label: 'External (-)',
+                description: voids ? 'Someone else needed you; voids the work session' : 'Someone else needed you',
+                interruptionType: 'external'
+            }
+        ];
+        
+        const selection = await vscode.window.showQuickPick(items, { placeHolder: 'What kind of interruption was it?' });
+        return selection?.interruptionType;
+    }
+
+    /**
+     * Logs an interruption on the shared timer; an external one voids the work session if so configured
+     */
+    private recordInterruption(type: InterruptionType, note?: string): void {
+        if (!this.timerManager.recordInterruption(type, note)) {
+            return;
+        }
+        
+        if (type === 'external' && this.configurationManager.getConfigValue('voidOnExternalInterruption')) {
+            this.timerManager.voidSession();
+            this.statusBarController.showSessionVoided();
+        } else {
+            this.statusBarController.showInterruptionLogged(type);
+        }
+        this.saveState();
+    }
+
+    /**
+     * Shows the actions available for the current phase of the timer and runs the one picked
+     */
+    private async showMenu(): Promise<void> {
+        await this.ready;
+        
+        const context = this.timerManager.getCurrentState();
+        const items: MenuPickItem[] = [];
+        
+        if (context.currentState === TimerState.IDLE) {
+            items.push(
+                { label: '$(play) Start Work Session', command: 'workSessionManager.startSession' },
+                { label: '$(coffee) Start Rest Period', command: 'workSessionManager.startRest' },
+                { label: '$(coffee) Start Long Break', command: 'workSessionManager.startLongBreak' }
+            );
+        } else if (context.currentState === TimerState.OVERTIME) {
+            // Overtime cannot be paused, and skipping it is taking the break
+            items.push({ label: '$(coffee) Take a Break', command: 'workSessionManager.takeBreak' });
+        } else if (this.timerManager.isPaused()) {
+            items.push({ label: '$(play) Resume', command: 'workSessionManager.resume' });
+        } else {
+            items.push({ label: '$(debug-pause) Pause', command: 'workSessionManager.pause' });
+        }
+        
+        if (this.timerManager.isWorkSession()) {
+            items.push(
+                { label: '$(comment) Log Internal Interruption', command: 'workSessionManager.logInternalInterruption' },
+                { label: '$(bell) Log External Interruption', command: 'workSessionManager.logExternalInterruption' },
+                { label: '$(tag) Change Session Label...', command: 'workSessionManager.changeLabel' }
+            );
+        }
+        
+        if (context.currentState !== TimerState.IDLE && context.currentState !== TimerState.OVERTIME) {
+            items.push({ label: '$(debug-step-over) Skip', command: 'workSessionManager.skip' });
+        }
+        if (context.currentState !== TimerState.IDLE) {
+            items.push({ label: '$(debug-restart) Reset', command: 'workSessionManager.reset' });
+        }
+        
+        items.push(
+            { label: '$(checklist) Show Tasks...', command: 'workSessionManager.showTasks' },
+            { label: '$(settings) Select Timer Preset', command: 'workSessionManager.selectPreset' },
+            { label: '$(graph) Show Dashboard', command: 'workSessionManager.showDashboard' }
+        );
+        
+        const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Work Session Manager' });
+        if (selection) {
+            await vscode.commands.executeCommand(selection.command);
+        }
+    }
+
+    /**
+     * Suggests completing a task that was just credited with the last session of its estimate, and warns once
+     * one goes over its estimate
+     */
+    private async reviewTaskEstimate(task: Task): Promise<void> {
+        if (task.estimate === 0) {
+            return;
+        }
+        
+        if (task.actual === task.estimate) {
+            const selection = await vscode.window.showInformationMessage(
+                `Work Session Manager: "${task.title}" has used its estimate of ${task.estimate} ${task.estimate === 1 ? 'session' : 'sessions'}`,
+                'Complete Task'
+            );
+            if (selection === 'Complete Task') {
+                await this.completeTask(task);
+            }
+        } else if (task.actual === task.estimate + 1) {
+            vscode.window.showWarningMessage(
+                `Work Session Manager: "${task.title}" is over its estimate, with ${task.actual} of ${task.estimate} sessions`
+            );
+        }
+    }
+
+    /**
+     * Asks for a new task and its estimate; it becomes the active task if there is none
+     */
+    private async addTask(): Promise<void> {
+        const title = await vscode.window.showInputBox({
+            prompt: 'What is the task?',
+            placeHolder: 'e.g. Fix login race',
+            validateInput: value => value.trim() ? null : 'Enter a title for the task'
+        });
+        if (title === undefined) {
+            return;
+        }
+        
+        const estimate = await this.promptEstimate(title.trim());
+        if (estimate !== undefined) {
+            await this.taskStore.addTask(title, estimate);
+        }
+    }
+
+    /**
+     * Asks for a new title and estimate of a task
+     */
+    private async editTask(task: Task): Promise<void> {
+        const title = await vscode.window.showInputBox({
+            prompt: 'Rename the task',
+            value: task.title,
+            validateInput: value => value.trim() ? null : 'Enter a title for the task'
+        });
+        if (title === undefined) {
+            return;
+        }
+        
+        const estimate = await this.promptEstimate(title.trim(), task.estimate);
+        if (estimate !== undefined) {
+            await this.taskStore.editTask(task.id, { title, estimate });
+        }
+    }
+
+    /**
+     * Asks how many work sessions a task will take
+     * Resolves to the estimate, 0 for none, or undefined if the user dismissed the prompt
+     */
+    private async promptEstimate(title: string, current?: number): Promise<number | undefined> {
+        const input = await vscode.window.showInputBox({
+            prompt: `How many work sessions will "${title}" take? Leave empty for no estimate`,
+            value: current ? current.toString() : '',
+            placeHolder: 'e.g. 3',
+            validateInput: value => this.taskStore.parseEstimate(value) !== null ? null : 'Enter a whole number of sessions, up to 20'
+        });
+        return input === undefined ? undefined : this.taskStore.parseEstimate(input) ?? undefined;
+    }
+
+    /**
+     * Completes the active task
+     */
+    private async completeActiveTask(): Promise<void> {
+        const task = this.taskStore.getActiveTask();
+        if (!task) {
+            vscode.window.showInformationMessage('Work Session Manager: There is no active task to complete');
+            return;
+        }
+        
+        await this.completeTask(task);
+    }
+
+    /**
+     * Completes a task, telling how it went against its estimate
+     */
+    private async completeTask(task: Task): Promise<void> {
+        const completed = await this.taskStore.completeTask(task.id);
+        if (!completed) {
+            return;
+        }
+        
+        const sessions = `${completed.actual} ${completed.actual === 1 ? 'session' : 'sessions'}`;
+        switch (this.taskStore.getEstimateStatus(completed)) {
+            case 'over':
+                vscode.window.showWarningMessage(`Work Session Manager: "${completed.title}" took ${sessions}, ` +
+                    `${completed.actual - completed.estimate} over its estimate of ${completed.estimate}`);
+                break;
+            case 'under':
+                vscode.window.showInformationMessage(`Work Session Manager: "${completed.title}" took ${sessions}, ` +
+                    `${completed.estimate - completed.actual} under its estimate of ${completed.estimate}`);
+                break;
+            default:
+                this.statusBarController.showTemporaryMessage(`✅ ${completed.title}`, 3000);
+        }
+    }
+
+    /**
+     * Shows the task list: picking an open task makes it active, and its buttons move, edit or complete it
+     */
+    private showTasks(): void {
+        const moveUp: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-up'), tooltip: 'Move Up' };
+        const moveDown: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-down'), tooltip: 'Move Down' };
+        const edit: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Edit Task' };
+        const complete: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('check'), tooltip: 'Complete Task' };
+        
+        const quickPick = vscode.window.createQuickPick<TaskPickItem>();
+        quickPick.placeholder = 'Pick the task to work on';
+        const refresh = () => {
+            const activeTask = this.taskStore.getActiveTask();
+            const tasks = this.taskStore.getTasks();
+            quickPick.items = [
+                ...tasks.filter(task => task.completedAt === undefined).map(task => ({
+                    label: `${task.id === activeTask?.id ? '$(play) ' : ''}${task.title}`,
+                    description: this.describeEstimate(task),
+                    buttons: [moveUp, moveDown, edit, complete],
+                    task
+                })),
+                { label: '$(add) Add Task...', alwaysShow: true },
+                ...tasks.filter(task => task.completedAt !== undefined).map(task => ({
+                    label: `$(pass) ${task.title}`,
+                    description: `${this.describeEstimate(task)} · done`,
+                    task
+                }))
+            ];
+        };
+        refresh();
+        
+        quickPick.onDidTriggerItemButton(async event => {
+            const task = event.item.task;
+            if (!task) {
+                return;
+            }
+            
+            if (event.button === edit) {
+                quickPick.hide();
+                await this.editTask(task);
+                return;
+            }
+            
+            if (event.button === complete) {
+                await this.completeTask(task);
+            } else {
+                await this.taskStore.moveTask(task.id, event.button === moveUp ? -1 : 1);
+            }
+            refresh();
+        });
+        quickPick.onDidAccept(async () => {
+            const task = quickPick.selectedItems[0]?.task;
+            quickPick.hide();
+            if (!task) {
+                await this.addTask();
+            } else if (task.completedAt === undefined) {
+                await this.taskStore.setActiveTask(task.id);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    /**
+     * Describes the work sessions a task has taken against its estimate, e.g. "3/4 sessions"
+     */
+    private describeEstimate(task: Task): string {
+        if (task.estimate === 0) {
+            return `${task.actual} ${task.actual === 1 ? 'session' : 'sessions'}`;
+        }
+        
+        const over = this.taskStore.getEstimateStatus(task) === 'over' ? ' $(warning) over estimate' : '';
+        return `${task.actual}/${task.estimate} sessions${over}`;
+    }
+
+    /**
+     * Asks for a session label, offering the current and recently used ones and whatever the user types
+     * Resolves to the label, empty for none, or undefined if the user dismissed the picker
+     */
+    private pickLabel(placeholder: string): Promise<string | undefined> {
+        const current = this.timerManager.getCurrentState().label;
+        const recent = Array.from(new Set(current ? [current, ...this.stateManager.getLabels()] : this.stateManager.getLabels()))
+            .slice(0, WorkSessionManagerExtension.RECENT_LABELS);
+        const recentItems: LabelPickItem[] = recent.map(label => ({
+            label,
+            description: label === current ? 'Current label' : undefined,
+            sessionLabel: label
+        }));
+        const noLabel: LabelPickItem = { label: 'No label', sessionLabel: '' };
+        
+        const quickPick = vscode.window.createQuickPick<LabelPickItem>();
+        quickPick.placeholder = placeholder;
+        quickPick.items = [noLabel, ...recentItems];
+        
+        // Offer what the user types as a new label
+        quickPick.onDidChangeValue(value => {
+            const typed = value.trim();
+            const newLabel: LabelPickItem[] = typed && !recent.includes(typed) ?
+                [{ label: typed, description: 'New label', sessionLabel: typed, alwaysShow: true }] : [];
+            quickPick.items = [...newLabel, noLabel, ...recentItems];
+        });
+        
+        return new Promise(resolve => {
+            let picked: string | undefined;
+            quickPick.onDidAccept(() => {
+                picked = quickPick.selectedItems[0]?.sessionLabel ?? quickPick.value.trim();
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                resolve(picked);
+            });
+            quickPick.show();
+        });
+    }
+
+    /**
+     * Adds time to, or with a negative delta removes time from, the current phase
+     */
+    private adjustTime(deltaSeconds: number): void {
+        if (!this.timerManager.adjustRemainingTime(deltaSeconds)) {
+            vscode.window.showInformationMessage('Work Session Manager: There is no work session or break to adjust');
+            return;
+        }
+        
+        this.confirmAdjustment();
+    }
+
+    /**
+     * Sets the exact time left in the current phase
+     */
+    private setRemainingTime(seconds: number): void {
+        if (!this.timerManager.setRemainingTime(seconds)) {
+            vscode.window.showInformationMessage('Work Session Manager: There is no work session or break to adjust');
+            return;
+        }
+        
+        this.confirmAdjustment();
+    }
+
+    /**
+     * Confirms an adjusted time and saves it, unless the adjustment completed the phase
+     */
+    private confirmAdjustment(): void {
+        if (this.timerManager.canAdjustTime()) {
+            this.statusBarController.showTimeAdjusted(this.timerManager.getCurrentState().remainingTime);
+        }
+        this.saveState();
+    }
+
+    /**
+     * Ends the current phase early and moves on as if it had run out
+     * Overtime has no end of its own, so skipping it takes the break
+     */
+    private skip(): void {
+        if (this.timerManager.isOvertime()) {
+            this.takeBreak();
+        } else if (!this.timerManager.skip()) {
+            vscode.window.showInformationMessage('Work Session Manager: There is no work session or break to skip');
+        }
+    }
+
+    /**
+     * Resets the timer
+     */
+    private reset(): void {
+        this.timerManager.reset();
+        this.statusBarController.showTimerReset();
+        this.saveState();
+    }
+
+    /**
+     * Saves the current state (only the leader window writes the shared timer)
+     */
+    private async saveState(): Promise<void> {
+        if (!this.windowCoordinator.isLeader()) {
+            return;
+        }
+        
+        const context = this.timerManager.getCurrentState();
+        await this.stateManager.saveState(context, this.sessionCount, this.totalWorkTime, this.totalOvertime);
+    }
+
+    /**
+     * Restores statistics and, depending on the restoreOnStartup setting,
+     * the timer that was running when the window was closed or reloaded
+     */
+    private async restoreState(): Promise<void> {
+        try {
+            await this.windowCoordinator.start();
+            
+            if (!this.windowCoordinator.isLeader()) {
+                // Another window owns the timer, mirror it instead of restoring
+                this.mirrorSharedTimer();
+                this.updateGoalProgress();
+                this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
+                console.log('Work Session Manager: Mirroring timer from another window');
+                return;
+            }
+            
+            const config = this.configurationManager.getConfiguration();
+            
+            // Restoring first credits work sessions that expired while VS Code was closed
+            const restoredContext = await this.stateManager.restoreState(config);
+            const stats = this.stateManager.getStatistics();
+            
+            this.sessionCount = stats.sessionCount;
+            this.totalWorkTime = stats.totalWorkTime;
+            this.totalOvertime = stats.totalOvertime;
+            this.updateGoalProgress();
+            
+            if (restoredContext && restoredContext.currentState !== TimerState.IDLE && config.restoreOnStartup !== 'never') {
+                await this.restoreTimer(restoredContext, config);
+            } else if (config.autoStartOnOpen) {
+                // Auto-start work session, a flow session in flowtime mode
+                this.startSession();
+                console.log('Work Session Manager: Auto-started work session');
+            } else {
+                // Start fresh - timer begins in idle state, replacing any timer left behind so that
+                // other windows neither mirror it nor take it over
+                await this.saveState();
+                this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
+                console.log('Work Session Manager: Started fresh session');
+            }
+        } catch (error) {
+            console.warn('Work Session Manager: Failed to restore state:', error);
+            // Continue with fresh state
+            this.statusBarController.updateDisplay(this.timerManager.getCurrentState());
+        }
+    }
+
+    /**
+     * Puts a restored timer back in place, asking first if configured to
+     * In ask mode the timer waits paused, so no time is lost while the prompt is open
+     */
+    private async restoreTimer(restoredContext: TimerContext, config: ExtensionConfig): Promise<void> {
+        this.timerManager.restore(restoredContext);
+        
+        // Nothing is lost while a paused timer or overtime waits for the user
+        if (restoredContext.currentState === TimerState.PAUSED || restoredContext.currentState === TimerState.OVERTIME) {
+            console.log('Work Session Manager: Restored waiting timer');
+            return;
+        }
+        
+        if (config.restoreOnStartup === 'always') {
+            console.log('Work Session Manager: Restored running timer');
+            return;
+        }
+        
+        this.timerManager.pause();
+        const pausedContext = this.timerManager.getCurrentState();
+        const message = pausedContext.countUp ?
+            `You had been focusing for ${this.timerManager.formatTime(pausedContext.elapsedTime ?? 0)} in a flow session — resume?` :
+            `You had ${this.timerManager.formatTime(pausedContext.remainingTime)} left in ${this.describePhase(restoredContext)} — resume?`;
+        const selection = await vscode.window.showInformationMessage(
+            message,
+            'Resume',
+            'Discard'
+        );
+        
+        if (selection === 'Resume') {
+            this.resume();
+        } else if (selection === 'Discard') {
+            this.reset();
+        }
+    }
+
+    /**
+     * Gets the project this window works on: its workspace, and in multi-root workspaces
+     * the folder of the active editor (or of the given file)
+     */
+    private getWorkspaceAttribution(uri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri): WorkspaceAttribution {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const folder = folders.length > 1 && uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        
+        return {
+            workspaceName: vscode.workspace.name,
+            workspaceFolder: folder?.name
+        };
+    }
+
+    /**
+     * Lets the user pick a project from the session history and opens the dashboard for it
+     */
+    private async showProjectDashboard(): Promise<void> {
+        const projects = this.stateManager.getProjects();
+        if (projects.length === 0) {
+            vscode.window.showInformationMessage('Work Session Manager: No sessions have been recorded yet');
+            return;
+        }
+        
+        // Offer the project of this window first
+        const { workspaceName, workspaceFolder } = this.getWorkspaceAttribution();
+        const current = workspaceFolder ?? workspaceName;
+        const items = current && projects.includes(current) ?
+            [current, ...projects.filter(project => project !== current)] : projects;
+        
+        const project = await vscode.window.showQuickPick(items, { placeHolder: 'Show the statistics of a project' });
+        if (project) {
+            this.dashboardPanel.show(project);
+        }
+    }
+
+    /**
+     * Lets the user pick a preset, or the duration settings, and makes it the active one
+     * The durations are applied by the configuration change that follows
+     */
+    private async selectPreset(): Promise<void> {
+        const config = this.configurationManager.getConfiguration();
+        const items: PresetPickItem[] = this.configurationManager.getPresets(config.presets).map(preset => ({
+            label: `${preset.name === config.activePreset ? '$(check) ' : ''}${preset.name}`,
+            description: this.describePreset(preset),
+            presetName: preset.name
+        }));
+        items.push({
+            label: `${config.activePreset === '' ? '$(check) ' : ''}Custom Durations`,
+            description: 'Use the session, rest and long break duration settings',
+            presetName: ''
+        });
+        
+        // A workspace with its own preset keeps switching its own
+        const scope = this.configurationManager.getConfigurationTarget('activePreset') === vscode.ConfigurationTarget.Workspace ?
+            ' for this workspace' : '';
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: config.activePreset ? `Current preset${scope}: ${config.activePreset}` : `Select a timer preset${scope}`
+        });
+        if (!selection || selection.presetName === config.activePreset) {
+            return;
+        }
+        
+        await this.configurationManager.updateConfiguration('activePreset', selection.presetName);
+        this.statusBarController.showTemporaryMessage(`⏱️ ${selection.presetName || 'Custom Durations'}`, 2000);
+    }
+
+    /**
+     * Describes the durations of a preset, e.g. "25 min work · 5 min break · 15 min long break every 4 sessions"
+     */
+    private describePreset(preset: TimerPreset): string {
+        const parts = [`${preset.sessionDuration} min work`, `${preset.restDuration} min break`];
+        const interval = preset.longBreakInterval !== undefined ? ` every ${preset.longBreakInterval} sessions` : '';
+        if (preset.longBreakDuration !== undefined) {
+            parts.push(`${preset.longBreakDuration} min long break${interval}`);
+        } else if (interval) {
+            parts.push(`long break${interval}`);
+        }
+        return parts.join(' · ');
+    }
+
+    /**
+     * Describes a timer phase for use in messages
+     */
+    private describePhase(context: TimerContext): string {
+        if (context.sequenceStep) {
+            return `"${context.sequenceStep.name}"`;
+        }
+        
+        switch (context.currentState) {
+            case TimerState.REST_PERIOD:
+                return 'a rest period';
+            case TimerState.LONG_BREAK:
+                return 'a long break';
+            default:
+                return 'a work session';
+        }
+    }
+
+    /**
+     * Gets the timer manager driving this extension instance
+     */
+    public getTimerManager(): TimerManager {
+        return this.timerManager;
+    }
+
+    /**
+     * Disposes of all resources
      */
     public dispose(): void {
         // Save final state
         this.saveState();
         
+        if (this.dayRolloverHandle) {
+            this.clock.clearTimeout(this.dayRolloverHandle);
+            this.dayRolloverHandle = null;
+        }
+        this.clearAwayReminder();
+        
         // Dispose of all components
+        this.windowCoordinator.dispose();
+        this.activityMonitor.dispose();
+        this.focusTracker.dispose();
+        this.gitTracker.dispose();
+        this.taskStore.dispose();
+        this.breakScreen.dispose();
+        this.doNotDisturb.exit();
+        this.dashboardPanel.dispose();
+        this.timerView.dispose();
         this.timerManager.dispose();
         this.statusBarController.dispose();
         this.audioManager.dispose();
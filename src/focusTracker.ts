@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { Clock, SharedFocusState, TimerHandle } from './types';
+import { SystemClock } from './clock';
+
+/**
+ * Tracks when the user leaves VS Code for another application and when they come back
+ * Windows share their focus through global state, so switching between VS Code windows
+ * does not count as leaving
+ *
+ * Events:
+ * - 'away' (since: Date) when no VS Code window has had focus for a moment
+ * - 'back' (returnedAt: Date) when a VS Code window gets focus again
+ */
+export class FocusTracker extends EventEmitter {
+    private static readonly FOCUS_KEY = 'workSessionManager.focus';
+    private static readonly CHECK_INTERVAL = 1000; // 1 second
+    private static readonly SWITCH_GRACE = 1000; // time another window has to take focus over
+
+    private context: vscode.ExtensionContext;
+    private clock: Clock;
+    private readonly windowId: string;
+    private awaySince: number | null = null;
+    private intervalId: TimerHandle | null = null;
+    private subscription: vscode.Disposable | null = null;
+
+    constructor(context: vscode.ExtensionContext, windowId: string, clock: Clock = new SystemClock()) {
+        super();
+        this.context = context;
+        this.windowId = windowId;
+        this.clock = clock;
+    }
+
+    /**
+     * Starts tracking the focus of this window
+     */
+    public start(): void {
+        if (this.intervalId) {
+            return;
+        }
+
+        if (vscode.window.state.focused) {
+            this.recordFocusChange(true);
+        }
+        this.subscription = vscode.window.onDidChangeWindowState(state => {
+            this.recordFocusChange(state.focused);
+        });
+        this.intervalId = this.clock.setInterval(() => {
+            this.checkFocus();
+        }, FocusTracker.CHECK_INTERVAL);
+    }
+
+    /**
+     * Checks if the user is currently away from VS Code
+     */
+    public isAway(): boolean {
+        return this.awaySince !== null;
+    }
+
+    /**
+     * Gets when the user left VS Code, while they are away
+     */
+    public getAwaySince(): Date | undefined {
+        return this.awaySince !== null ? new Date(this.awaySince) : undefined;
+    }
+
+    /**
+     * Shares a focus change of this window with the other windows
+     * Losing focus is only shared if no other window has taken it over yet
+     */
+    public recordFocusChange(focused: boolean): void {
+        const shared = this.context.globalState.get<SharedFocusState>(FocusTracker.FOCUS_KEY);
+        if (!focused && shared && shared.windowId !== this.windowId && shared.focused) {
+            return;
+        }
+
+        const state: SharedFocusState = { windowId: this.windowId, focused, changedAt: this.clock.now().getTime() };
+        this.context.globalState.update(FocusTracker.FOCUS_KEY, state);
+        this.checkFocus();
+    }
+
+    /**
+     * Reports the user as away once no window has had focus for longer than a window switch takes
+     */
+    private checkFocus(): void {
+        const shared = this.context.globalState.get<SharedFocusState>(FocusTracker.FOCUS_KEY);
+        if (!shared) {
+            return;
+        }
+
+        const now = this.clock.now().getTime();
+        const away = !shared.focused && now - shared.changedAt >= FocusTracker.SWITCH_GRACE;
+
+        if (away && this.awaySince === null) {
+            this.awaySince = shared.changedAt;
+            this.emit('away', new Date(shared.changedAt));
+        } else if (shared.focused && this.awaySince !== null) {
+            this.awaySince = null;
+            this.emit('back', new Date(shared.changedAt));
+        }
+    }
+
+    /**
+     * Stops tracking and removes all listeners
+     */
+    public dispose(): void {
+        if (this.intervalId) {
+            this.clock.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.subscription?.dispose();
+        this.subscription = null;
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
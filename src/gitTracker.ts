@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import { Clock, SessionCommit } from './types';
+import { SystemClock } from './clock';
+
+/**
+ * The parts of the built-in Git extension API (extensions/git/src/api/git.d.ts) used here
+ */
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitApi;
+}
+
+interface GitApi {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: { value: string };
+    readonly state: {
+        readonly HEAD: { readonly name?: string; readonly commit?: string } | undefined;
+        readonly onDidChange: vscode.Event<void>;
+    };
+    getCommit(ref: string): Promise<{ hash: string; message: string; parents: string[]; commitDate?: Date }>;
+}
+
+/**
+ * Reads the git branch checked out in this window and records the commits made in it
+ * Commits are shared through global state, so that the window owning the timer can credit
+ * the commits of every window to the work session they were made in
+ *
+ * Events:
+ * - 'commit' (commit: SessionCommit) when a commit is made in a repository of this window
+ */
+export class GitTracker extends EventEmitter {
+    private static readonly COMMITS_KEY = 'workSessionManager.commits';
+    private static readonly COMMIT_RETENTION = 24 * 60 * 60 * 1000; // commits are kept a day for sessions to claim them
+    private static readonly COMMIT_AGE = 60 * 1000; // a new HEAD committed longer ago was checked out or pulled
+    private static readonly GIT_TIMEOUT = 5000;
+    private static readonly TRAILER = 'Focus-Sessions';
+
+    private context: vscode.ExtensionContext;
+    private clock: Clock;
+    private api: GitApi | undefined;
+    private heads = new Map<string, string | undefined>();
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(context: vscode.ExtensionContext, clock: Clock = new SystemClock()) {
+        super();
+        this.context = context;
+        this.clock = clock;
+    }
+
+    /**
+     * Connects to the built-in Git extension, if it is installed and enabled, and watches its repositories
+     * Without it, branches are read with git itself and commits are not recorded
+     */
+    public async start(): Promise<void> {
+        if (this.api) {
+            return;
+        }
+
+        try {
+            const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+            const git = extension && (extension.isActive ? extension.exports : await extension.activate());
+            if (!git || !git.enabled) {
+                return;
+            }
+
+            this.api = git.getAPI(1);
+            this.api.repositories.forEach(repository => this.watchRepository(repository));
+            this.subscriptions.push(this.api.onDidOpenRepository(repository => this.watchRepository(repository)));
+        } catch (error) {
+            console.warn('Work Session Manager: Git extension not available:', error);
+        }
+    }
+
+    /**
+     * Gets the branch checked out in the repository of the active editor, or else of the first workspace folder
+     * Resolves to undefined outside a repository and on a detached HEAD
+     */
+    public async getBranch(): Promise<string | undefined> {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+
+        if (this.api) {
+            const repository = (uri && this.api.getRepository(uri)) || this.api.repositories[0];
+            return repository?.state.HEAD?.name;
+        }
+
+        const folder = (uri && vscode.workspace.getWorkspaceFolder(uri)) || vscode.workspace.workspaceFolders?.[0];
+        if (!folder || folder.uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const branch = await this.runGit(folder.uri.fsPath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+        return branch && branch !== 'HEAD' ? branch : undefined;
+    }
+
+    /**
+     * Gets the commits made in any window between the given times, oldest first
+     */
+    public getCommits(from: Date, to: Date): SessionCommit[] {
+        return this.loadCommits()
+            .filter(commit => commit.committedAt >= from.getTime() && commit.committedAt <= to.getTime());
+    }
+
+    /**
+     * Puts a Focus-Sessions trailer with the number of work sessions spent since the last commit into the
+     * commit message of every repository in this window, or takes it out when there were none
+     */
+    public async updateCommitTrailers(countSessions: (since: Date | undefined, root: vscode.Uri) => number): Promise<void> {
+        for (const repository of this.api?.repositories ?? []) {
+            const head = repository.state.HEAD?.commit;
+            let since: Date | undefined;
+            try {
+                since = head ? (await repository.getCommit(head)).commitDate : undefined;
+            } catch (error) {
+                // A repository without commits yet
+            }
+
+            this.setTrailer(repository, countSessions(since, repository.rootUri));
+        }
+    }
+
+    /**
+     * Takes the Focus-Sessions trailer out of the commit messages
+     */
+    public removeCommitTrailers(): void {
+        for (const repository of this.api?.repositories ?? []) {
+            this.setTrailer(repository, 0);
+        }
+    }
+
+    /**
+     * Sets the Focus-Sessions trailer of a commit message, touching only the trailer line and leaving
+     * the rest of the message as typed
+     */
+    private setTrailer(repository: GitRepository, sessions: number): void {
+        const trailer = new RegExp(`(\\n{0,2})^${GitTracker.TRAILER}: \\d+[ \\t]*$(\\n?)`, 'm');
+        const message = repository.inputBox.value;
+        const match = trailer.exec(message);
+        let value = message;
+
+        if (match && sessions > 0) {
+            value = message.replace(trailer, `$1${GitTracker.TRAILER}: ${sessions}$2`);
+        } else if (match) {
+            // A trailer ending the message takes the line breaks before it along; others the one after it
+            value = message.replace(trailer, match[2] ? '$1' : '');
+        } else if (sessions > 0) {
+            // Join other trailers, such as Signed-off-by, in the last paragraph
+            const lastParagraph = message.trimEnd().split('\n\n').pop() ?? '';
+            const joinsTrailers = message.trimEnd().includes('\n\n') && /^[\w-]+: /.test(lastParagraph);
+            const separator = joinsTrailers ? '\n' : '\n\n';
+            const lineBreaks = message.length - message.replace(/\n+$/, '').length;
+            value = `${message}${separator.slice(Math.min(lineBreaks, separator.length))}${GitTracker.TRAILER}: ${sessions}`;
+        }
+
+        if (value !== message) {
+            repository.inputBox.value = value;
+        }
+    }
+
+    /**
+     * Records the commits made in a repository from now on
+     * A commit moves HEAD to a new child of the previous HEAD; checkouts and pulls move it elsewhere
+     * or to a commit made earlier
+     */
+    private watchRepository(repository: GitRepository): void {
+        const root = repository.rootUri.toString();
+        if (this.heads.has(root)) {
+            return;
+        }
+
+        this.heads.set(root, repository.state.HEAD?.commit);
+        this.subscriptions.push(repository.state.onDidChange(async () => {
+            const previous = this.heads.get(root);
+            const head = repository.state.HEAD?.commit;
+            this.heads.set(root, head);
+
+            if (!head || !previous || head === previous) {
+                return;
+            }
+
+            try {
+                const commit = await repository.getCommit(head);
+                const committedAt = commit.commitDate?.getTime() ?? this.clock.now().getTime();
+                if (commit.parents[0] === previous && this.clock.now().getTime() - committedAt <= GitTracker.COMMIT_AGE) {
+                    await this.recordCommit({
+                        hash: commit.hash,
+                        message: commit.message.split('\n')[0],
+                        repository: path.basename(repository.rootUri.fsPath),
+                        committedAt
+                    });
+                }
+            } catch (error) {
+                console.warn('Work Session Manager: Failed to read the new commit:', error);
+            }
+        }));
+    }
+
+    /**
+     * Shares a commit with the other windows, dropping those too old to belong to a work session
+     */
+    private async recordCommit(commit: SessionCommit): Promise<void> {
+        const oldest = this.clock.now().getTime() - GitTracker.COMMIT_RETENTION;
+        const commits = this.loadCommits().filter(recorded => recorded.committedAt >= oldest && recorded.hash !== commit.hash);
+        commits.push(commit);
+
+        await this.context.globalState.update(GitTracker.COMMITS_KEY, commits);
+        this.emit('commit', commit);
+    }
+
+    /**
+     * Loads the shared commits, skipping malformed entries
+     */
+    private loadCommits(): SessionCommit[] {
+        const stored = this.context.globalState.get<SessionCommit[]>(GitTracker.COMMITS_KEY, []);
+        return Array.isArray(stored) ?
+            stored.filter(commit => commit && typeof commit.hash === 'string' && typeof commit.committedAt === 'number') : [];
+    }
+
+    /**
+     * Runs git in a folder, resolving to its trimmed output, or undefined if it fails
+     */
+    private runGit(cwd: string, args: string[]): Promise<string | undefined> {
+        return new Promise(resolve => {
+            execFile('git', args, { cwd, timeout: GitTracker.GIT_TIMEOUT }, (error, stdout) => {
+                resolve(error ? undefined : stdout.trim());
+            });
+        });
+    }
+
+    /**
+     * Stops watching the repositories and removes all listeners
+     */
+    public dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions = [];
+        this.heads.clear();
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
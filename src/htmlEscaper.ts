@@ -0,0 +1,15 @@
+/**
+ * Escapes text from settings, workspace names and labels the same way in every webview: the dashboard and the break screen
+ */
+export class HtmlEscaper {
+    /**
+     * Escapes text for use in the markup, in element content as well as in quoted attributes
+     */
+    public static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
\ No newline at end of file
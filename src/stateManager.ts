@@ -1,30 +1,60 @@
 import * as vscode from 'vscode';
-import { TimerState, PersistedState, TimerContext } from './types';
+import { TimerState, PersistedState, TimerContext, Clock, HistoryEntry, HistoryFilter, InterruptionStatistics, PersistedTasks, BreakTransition, Task } from './types';
+import { SystemClock } from './clock';
+import { StatisticsCalculator } from './statisticsCalculator';
 
 /**
  * Manages persistence and restoration of timer state across VS Code sessions
  */
 export class StateManager {
     private static readonly STATE_KEY = 'workSessionManager.timerState';
+    private static readonly HISTORY_KEY = 'workSessionManager.history';
+    private static readonly TASKS_KEY = 'workSessionManager.tasks';
+    private static readonly HISTORY_RETENTION_DAYS = 365;
     private context: vscode.ExtensionContext;
+    private clock: Clock;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, clock: Clock = new SystemClock()) {
         this.context = context;
+        this.clock = clock;
     }
 
     /**
      * Saves the current timer state to VS Code's global state
      */
-    public async saveState(timerContext: TimerContext, sessionCount: number = 0, totalWorkTime: number = 0): Promise<void> {
+    public async saveState(
+        timerContext: TimerContext,
+        sessionCount: number = 0,
+        totalWorkTime: number = 0,
+        totalOvertime: number = 0
+    ): Promise<void> {
         const persistedState: PersistedState = {
             currentState: timerContext.currentState,
             remainingTime: timerContext.remainingTime,
+            pausedFrom: timerContext.pausedFrom,
+            pausedAt: timerContext.pausedAt,
+            idlePaused: timerContext.idlePaused,
             sessionStartTime: timerContext.sessionStartTime,
-            lastActiveTime: new Date(),
+            phaseEndTime: timerContext.phaseEndTime,
+            plannedDuration: timerContext.plannedDuration,
+            pausedTime: timerContext.pausedTime,
+            countUp: timerContext.countUp,
+            adjustedTime: timerContext.adjustedTime,
+            sequenceIndex: timerContext.sequenceIndex,
+            sequenceStep: timerContext.sequenceStep,
+            workspace: timerContext.workspace,
+            label: timerContext.label,
+            focusLosses: timerContext.focusLosses,
+            timeAway: timerContext.timeAway,
+            breakViolations: timerContext.breakViolations,
+            interruptions: timerContext.interruptions,
+            lastActiveTime: this.clock.now(),
             sessionCount,
             totalWorkTime,
+            totalOvertime,
             sessionDuration: timerContext.sessionDuration,
-            restDuration: timerContext.restDuration
+            restDuration: timerContext.restDuration,
+            longBreakDuration: timerContext.longBreakDuration
         };
 
         await this.context.globalState.update(StateManager.STATE_KEY, persistedState);
@@ -32,9 +62,10 @@ export class StateManager {
 
     /**
      * Restores timer state from VS Code's global state
-     * Handles time drift correction for cases where VS Code was closed during active sessions
+     * Handles time drift correction for cases where VS Code was closed during active sessions; a work session
+     * that ran out meanwhile is followed by overtime or a break as the given settings decide
      */
-    public async restoreState(): Promise<TimerContext | null> {
+    public async restoreState(transition: BreakTransition = { autoStartRest: true, longBreakInterval: 4, overtimeEnabled: false }): Promise<TimerContext | null> {
         const persistedState = this.context.globalState.get<PersistedState>(StateManager.STATE_KEY);
         
         if (!persistedState) {
@@ -48,12 +79,18 @@ export class StateManager {
             return null;
         }
 
-        const now = new Date();
+        const now = this.clock.now();
         const lastActiveTime = new Date(persistedState.lastActiveTime);
-        const timeDifference = Math.floor((now.getTime() - lastActiveTime.getTime()) / 1000); // in seconds
+        // Prefer the absolute phase end; states saved by earlier versions only have the last active time
+        const timeDifference = persistedState.phaseEndTime ?
+            persistedState.remainingTime - Math.ceil((new Date(persistedState.phaseEndTime).getTime() - now.getTime()) / 1000) :
+            Math.floor((now.getTime() - lastActiveTime.getTime()) / 1000); // in seconds
 
-        // If the state was idle or paused, restore as-is
-        if (persistedState.currentState === TimerState.IDLE || persistedState.currentState === TimerState.PAUSED) {
+        // If the state was idle, paused, in overtime or a flow session (both count up from their start), restore as-is
+        if (persistedState.currentState === TimerState.IDLE ||
+            persistedState.currentState === TimerState.PAUSED ||
+            persistedState.currentState === TimerState.OVERTIME ||
+            persistedState.countUp) {
             return this.createTimerContextFromPersisted(persistedState);
         }
 
@@ -62,7 +99,21 @@ export class StateManager {
 
         if (adjustedRemainingTime <= 0) {
             // Session expired while VS Code was closed
-            return this.handleExpiredSession(persistedState, timeDifference);
+            const expiredContext = this.handleExpiredSession(persistedState, timeDifference, transition);
+            await this.recordExpiredPhase(persistedState, now);
+
+            // A work session that ran to completion is credited; the resolved state
+            // is persisted so a later restore does not credit or record it again
+            const completedWork = persistedState.currentState === TimerState.WORK_SESSION;
+            const workTime = persistedState.plannedDuration ?? persistedState.sessionDuration * 60;
+            await this.saveState(
+                expiredContext,
+                persistedState.sessionCount + (completedWork ? 1 : 0),
+                persistedState.totalWorkTime + (completedWork ? workTime : 0),
+                persistedState.totalOvertime
+            );
+
+            return expiredContext;
         }
 
         // Session is still active, restore with adjusted time
@@ -71,55 +122,155 @@ export class StateManager {
             remainingTime: adjustedRemainingTime,
             sessionDuration: persistedState.sessionDuration,
             restDuration: persistedState.restDuration,
-            sessionStartTime: persistedState.sessionStartTime ? new Date(persistedState.sessionStartTime) : undefined
+            longBreakDuration: persistedState.longBreakDuration,
+            sessionStartTime: persistedState.sessionStartTime ? new Date(persistedState.sessionStartTime) : undefined,
+            phaseEndTime: new Date(now.getTime() + adjustedRemainingTime * 1000),
+            plannedDuration: persistedState.plannedDuration,
+            pausedTime: persistedState.pausedTime,
+            adjustedTime: persistedState.adjustedTime,
+            sequenceIndex: persistedState.sequenceIndex,
+            sequenceStep: persistedState.sequenceStep,
+            workspace: persistedState.workspace,
+            label: persistedState.label,
+            focusLosses: persistedState.focusLosses,
+            timeAway: persistedState.timeAway,
+            breakViolations: persistedState.breakViolations,
+            interruptions: persistedState.interruptions
         };
 
         return restoredContext;
     }
 
+    /**
+     * Reads the persisted timer state as-is, without drift correction or side effects
+     * Used by follower windows to mirror the timer owned by another window
+     */
+    public readState(): TimerContext | null {
+        const persistedState = this.context.globalState.get<PersistedState>(StateManager.STATE_KEY);
+
+        if (!persistedState || !this.isValidPersistedState(persistedState)) {
+            return null;
+        }
+
+        return {
+            ...this.createTimerContextFromPersisted(persistedState),
+            phaseEndTime: persistedState.phaseEndTime ? new Date(persistedState.phaseEndTime) : undefined
+        };
+    }
+
     /**
      * Handles sessions that expired while VS Code was closed
      */
-    private handleExpiredSession(persistedState: PersistedState, timeDifference: number): TimerContext {
-        const sessionDurationSeconds = persistedState.sessionDuration * 60;
-        const restDurationSeconds = persistedState.restDuration * 60;
+    private handleExpiredSession(persistedState: PersistedState, timeDifference: number, transition: BreakTransition): TimerContext {
+        
+        // The step after an expired step of a custom sequence is not known here, so the timer waits
+        if (persistedState.sequenceStep) {
+            return this.createIdleContext(persistedState);
+        }
         
         if (persistedState.currentState === TimerState.WORK_SESSION) {
-            // Work session expired, check if rest period also expired
             const timeAfterWorkSession = timeDifference - persistedState.remainingTime;
             
-            if (timeAfterWorkSession >= restDurationSeconds) {
-                // Both work session and rest period expired, return to idle
-                return this.createIdleContext(persistedState.sessionDuration, persistedState.restDuration);
+            // With overtime the work session has been counting up from its scheduled end, as after a live completion
+            if (transition.overtimeEnabled) {
+                return {
+                    ...this.createIdleContext(persistedState),
+                    currentState: TimerState.OVERTIME,
+                    sessionStartTime: new Date(this.clock.now().getTime() - timeAfterWorkSession * 1000),
+                    elapsedTime: timeAfterWorkSession
+                };
+            }
+            
+            // Work session expired; without auto-started breaks the timer waits, as after a live completion
+            if (!transition.autoStartRest) {
+                return this.createIdleContext(persistedState);
+            }
+            
+            // The break that followed is a long break every few sessions, counting the expired one
+            const longBreak = (persistedState.sessionCount + 1) % transition.longBreakInterval === 0;
+            const breakDurationSeconds = (longBreak ? persistedState.longBreakDuration ?? 15 : persistedState.restDuration) * 60;
+            
+            if (timeAfterWorkSession >= breakDurationSeconds) {
+                // Both work session and break expired, return to idle
+                return this.createIdleContext(persistedState);
             } else {
-                // Work session expired, but rest period is still active
-                const remainingRestTime = restDurationSeconds - timeAfterWorkSession;
+                // Work session expired, but the break is still active
+                const remainingRestTime = breakDurationSeconds - timeAfterWorkSession;
                 return {
-                    currentState: TimerState.REST_PERIOD,
+                    currentState: longBreak ? TimerState.LONG_BREAK : TimerState.REST_PERIOD,
                     remainingTime: remainingRestTime,
                     sessionDuration: persistedState.sessionDuration,
                     restDuration: persistedState.restDuration,
-                    sessionStartTime: new Date(Date.now() - timeAfterWorkSession * 1000)
+                    longBreakDuration: persistedState.longBreakDuration,
+                    sessionStartTime: new Date(this.clock.now().getTime() - timeAfterWorkSession * 1000),
+                    phaseEndTime: new Date(this.clock.now().getTime() + remainingRestTime * 1000),
+                    plannedDuration: breakDurationSeconds,
+                    pausedTime: 0,
+                    workspace: persistedState.workspace,
+                    label: persistedState.label
                 };
             }
-        } else if (persistedState.currentState === TimerState.REST_PERIOD) {
-            // Rest period expired, return to idle
-            return this.createIdleContext(persistedState.sessionDuration, persistedState.restDuration);
+        } else if (persistedState.currentState === TimerState.REST_PERIOD || persistedState.currentState === TimerState.LONG_BREAK) {
+            // Rest period or long break expired, return to idle
+            return this.createIdleContext(persistedState);
         }
 
         // Fallback to idle state
-        return this.createIdleContext(persistedState.sessionDuration, persistedState.restDuration);
+        return this.createIdleContext(persistedState);
     }
 
     /**
-     * Creates an idle timer context with specified durations
+     * Records a phase that ran out while VS Code was closed as completed
      */
-    private createIdleContext(sessionDuration: number, restDuration: number): TimerContext {
+    private async recordExpiredPhase(persistedState: PersistedState, now: Date): Promise<void> {
+        if (!persistedState.sessionStartTime) {
+            return;
+        }
+
+        const durations: { [state: string]: number | undefined } = {
+            [TimerState.WORK_SESSION]: persistedState.sessionDuration,
+            [TimerState.REST_PERIOD]: persistedState.restDuration,
+            [TimerState.LONG_BREAK]: persistedState.longBreakDuration ?? 15
+        };
+        const plannedDuration = persistedState.plannedDuration ?? (durations[persistedState.currentState] ?? 0) * 60;
+        const endTime = persistedState.phaseEndTime ?
+            new Date(persistedState.phaseEndTime) :
+            new Date(new Date(persistedState.lastActiveTime).getTime() + persistedState.remainingTime * 1000);
+
+        await this.addHistoryEntry({
+            phase: persistedState.currentState,
+            status: 'completed',
+            startTime: new Date(persistedState.sessionStartTime),
+            endTime: endTime < now ? endTime : now,
+            plannedDuration,
+            actualDuration: plannedDuration,
+            pausedTime: persistedState.pausedTime ?? 0,
+            adjustedTime: persistedState.adjustedTime || undefined,
+            phaseName: persistedState.sequenceStep?.name,
+            workspaceName: persistedState.workspace?.workspaceName,
+            workspaceFolder: persistedState.workspace?.workspaceFolder,
+            branch: persistedState.workspace?.branch,
+            label: persistedState.currentState === TimerState.WORK_SESSION ? persistedState.label : undefined,
+            focusLosses: persistedState.currentState === TimerState.WORK_SESSION ? persistedState.focusLosses : undefined,
+            timeAway: persistedState.currentState === TimerState.WORK_SESSION ? persistedState.timeAway : undefined,
+            breakViolations: persistedState.breakViolations,
+            interruptions: persistedState.currentState === TimerState.WORK_SESSION ? persistedState.interruptions : undefined
+        });
+    }
+
+    /**
+     * Creates an idle timer context with the durations, sequence position, project and label of the persisted state
+     */
+    private createIdleContext(persistedState: PersistedState): TimerContext {
         return {
             currentState: TimerState.IDLE,
             remainingTime: 0,
-            sessionDuration,
-            restDuration
+            sessionDuration: persistedState.sessionDuration,
+            restDuration: persistedState.restDuration,
+            longBreakDuration: persistedState.longBreakDuration,
+            sequenceIndex: persistedState.sequenceIndex,
+            workspace: persistedState.workspace,
+            label: persistedState.label
         };
     }
 
@@ -132,8 +283,24 @@ export class StateManager {
             remainingTime: persistedState.remainingTime,
             sessionDuration: persistedState.sessionDuration,
             restDuration: persistedState.restDuration,
+            longBreakDuration: persistedState.longBreakDuration,
             sessionStartTime: persistedState.sessionStartTime ? new Date(persistedState.sessionStartTime) : undefined,
-            pausedAt: persistedState.currentState === TimerState.PAUSED ? new Date() : undefined
+            pausedAt: persistedState.currentState === TimerState.PAUSED ?
+                (persistedState.pausedAt ? new Date(persistedState.pausedAt) : this.clock.now()) : undefined,
+            pausedFrom: persistedState.currentState === TimerState.PAUSED ? persistedState.pausedFrom : undefined,
+            idlePaused: persistedState.currentState === TimerState.PAUSED ? persistedState.idlePaused : undefined,
+            plannedDuration: persistedState.plannedDuration,
+            pausedTime: persistedState.pausedTime,
+            countUp: persistedState.countUp,
+            adjustedTime: persistedState.adjustedTime,
+            sequenceIndex: persistedState.sequenceIndex,
+            sequenceStep: persistedState.sequenceStep,
+            workspace: persistedState.workspace,
+            label: persistedState.label,
+            focusLosses: persistedState.focusLosses,
+            timeAway: persistedState.timeAway,
+            breakViolations: persistedState.breakViolations,
+            interruptions: persistedState.interruptions
         };
     }
 
@@ -158,6 +325,11 @@ export class StateManager {
             return false;
         }
 
+        if (state.pausedFrom !== undefined &&
+            ![TimerState.WORK_SESSION, TimerState.REST_PERIOD, TimerState.LONG_BREAK].includes(state.pausedFrom)) {
+            return false;
+        }
+
         if (typeof state.remainingTime !== 'number' || state.remainingTime < 0) {
             return false;
         }
@@ -170,12 +342,24 @@ export class StateManager {
             return false;
         }
 
+        // Long break duration is optional for states saved by earlier versions
+        if (state.longBreakDuration !== undefined &&
+            (typeof state.longBreakDuration !== 'number' || state.longBreakDuration < 1 || state.longBreakDuration > 60)) {
+            return false;
+        }
+
         // Validate dates
         try {
             new Date(state.lastActiveTime);
             if (state.sessionStartTime) {
                 new Date(state.sessionStartTime);
             }
+            if (state.phaseEndTime && isNaN(new Date(state.phaseEndTime).getTime())) {
+                return false;
+            }
+            if (state.pausedAt && isNaN(new Date(state.pausedAt).getTime())) {
+                return false;
+            }
         } catch {
             return false;
         }
@@ -193,29 +377,177 @@ export class StateManager {
     /**
      * Gets statistics from persisted state
      */
-    public getStatistics(): { sessionCount: number; totalWorkTime: number } {
+    public getStatistics(): { sessionCount: number; totalWorkTime: number; totalOvertime: number } {
         const persistedState = this.context.globalState.get<PersistedState>(StateManager.STATE_KEY);
         
         if (!persistedState || !this.isValidPersistedState(persistedState)) {
-            return { sessionCount: 0, totalWorkTime: 0 };
+            return { sessionCount: 0, totalWorkTime: 0, totalOvertime: 0 };
         }
 
         return {
             sessionCount: persistedState.sessionCount,
-            totalWorkTime: persistedState.totalWorkTime
+            totalWorkTime: persistedState.totalWorkTime,
+            totalOvertime: persistedState.totalOvertime ?? 0
         };
     }
 
     /**
      * Updates statistics in persisted state
+     * Overtime is left unchanged when not given
      */
-    public async updateStatistics(sessionCount: number, totalWorkTime: number): Promise<void> {
+    public async updateStatistics(sessionCount: number, totalWorkTime: number, totalOvertime?: number): Promise<void> {
         const persistedState = this.context.globalState.get<PersistedState>(StateManager.STATE_KEY);
         
         if (persistedState && this.isValidPersistedState(persistedState)) {
             persistedState.sessionCount = sessionCount;
             persistedState.totalWorkTime = totalWorkTime;
+            if (totalOvertime !== undefined) {
+                persistedState.totalOvertime = totalOvertime;
+            }
             await this.context.globalState.update(StateManager.STATE_KEY, persistedState);
         }
     }
+    /**
+     * Appends a phase to the session history, dropping entries past the retention period
+     * Entries without a workspace are attributed to the current one
+     */
+    public async addHistoryEntry(entry: HistoryEntry): Promise<void> {
+        const cutoff = this.clock.now().getTime() - StateManager.HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const history = this.loadHistory().filter(existing => existing.startTime.getTime() >= cutoff);
+
+        history.push({
+            ...entry,
+            workspaceName: entry.workspaceName ?? vscode.workspace.name
+        });
+
+        await this.context.globalState.update(StateManager.HISTORY_KEY, history);
+    }
+
+    /**
+     * Gets history entries matching the filter, oldest first
+     */
+    public getHistory(filter: HistoryFilter = {}): HistoryEntry[] {
+        return this.loadHistory().filter(entry =>
+            (!filter.from || entry.startTime.getTime() >= filter.from.getTime()) &&
+            (!filter.to || entry.startTime.getTime() < filter.to.getTime()) &&
+            (!filter.phase || entry.phase === filter.phase) &&
+            (!filter.status || entry.status === filter.status) &&
+            (!filter.workspaceName || entry.workspaceName === filter.workspaceName) &&
+            (!filter.project || StatisticsCalculator.getProjectName(entry) === filter.project)
+        );
+    }
+
+    /**
+     * Gets the projects of the session history, most recently worked on first
+     */
+    public getProjects(): string[] {
+        const projects = this.loadHistory()
+            .reverse()
+            .map(entry => StatisticsCalculator.getProjectName(entry));
+        return Array.from(new Set(projects));
+    }
+
+    /**
+     * Gets the labels of the work sessions in the history, most recently used first
+     */
+    public getLabels(): string[] {
+        const labels = this.loadHistory()
+            .reverse()
+            .map(entry => entry.label)
+            .filter((label): label is string => typeof label === 'string' && label.length > 0);
+        return Array.from(new Set(labels));
+    }
+
+    /**
+     * Counts the interruptions logged during the work sessions matching the filter, and the sessions they voided
+     */
+    public getInterruptionStatistics(filter: HistoryFilter = {}): InterruptionStatistics {
+        const workSessions = this.getHistory({ ...filter, phase: TimerState.WORK_SESSION });
+        const interruptions = workSessions.flatMap(entry => entry.interruptions ?? []);
+        const internal = interruptions.filter(interruption => interruption.type === 'internal').length;
+
+        return {
+            workSessions: workSessions.length,
+            interruptedSessions: workSessions.filter(entry => entry.interruptions?.length).length,
+            voidedSessions: workSessions.filter(entry => entry.status === 'void').length,
+            internal,
+            external: interruptions.length - internal
+        };
+    }
+
+    /**
+     * Gets history entries that started on the given local calendar day
+     */
+    public getHistoryForDay(day: Date = this.clock.now()): HistoryEntry[] {
+        const from = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+        const to = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+        return this.getHistory({ from, to });
+    }
+
+    /**
+     * Clears the session history
+     */
+    public async clearHistory(): Promise<void> {
+        await this.context.globalState.update(StateManager.HISTORY_KEY, undefined);
+    }
+
+    /**
+     * Saves the task list
+     */
+    public async saveTasks(tasks: PersistedTasks): Promise<void> {
+        await this.context.globalState.update(StateManager.TASKS_KEY, tasks);
+    }
+
+    /**
+     * Loads the task list, skipping malformed tasks, tasks done before today and an active task that is gone or done
+     */
+    public loadTasks(): PersistedTasks {
+        const stored = this.context.globalState.get<PersistedTasks>(StateManager.TASKS_KEY);
+        if (!stored || typeof stored !== 'object' || !Array.isArray(stored.tasks)) {
+            return { tasks: [] };
+        }
+
+        const now = this.clock.now();
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const tasks = stored.tasks.filter(task => this.isValidTask(task) &&
+            (task.completedAt === undefined || task.completedAt >= startOfDay));
+        const activeTask = tasks.find(task => task.id === stored.activeTaskId && task.completedAt === undefined);
+
+        return { tasks, activeTaskId: activeTask?.id };
+    }
+
+    /**
+     * Validates a persisted task
+     */
+    private isValidTask(task: any): task is Task {
+        return !!task && typeof task === 'object' &&
+            typeof task.id === 'string' &&
+            typeof task.title === 'string' &&
+            typeof task.estimate === 'number' && task.estimate >= 0 &&
+            typeof task.actual === 'number' && task.actual >= 0 &&
+            typeof task.createdAt === 'number' &&
+            (task.completedAt === undefined || typeof task.completedAt === 'number');
+    }
+
+    /**
+     * Loads the persisted history, skipping malformed entries
+     */
+    private loadHistory(): HistoryEntry[] {
+        const stored = this.context.globalState.get<any[]>(StateManager.HISTORY_KEY, []);
+        if (!Array.isArray(stored)) {
+            return [];
+        }
+
+        return stored
+            .filter(entry => entry && typeof entry === 'object' &&
+                Object.values(TimerState).includes(entry.phase) &&
+                !isNaN(new Date(entry.startTime).getTime()) &&
+                !isNaN(new Date(entry.endTime).getTime()))
+            .map(entry => ({
+                ...entry,
+                startTime: new Date(entry.startTime),
+                endTime: new Date(entry.endTime)
+            }))
+            .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    }
 }
\ No newline at end of file
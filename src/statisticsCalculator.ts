@@ -0,0 +1,205 @@
+import { TimerState, HistoryEntry, DailyFocus, DashboardStatistics, PhaseTotal, FocusTotal, Clock } from './types';
+import { SystemClock } from './clock';
+
+/**
+ * Aggregates the session history into the statistics shown on the dashboard
+ * Days are local calendar days; focus time is the active time of work sessions
+ */
+export class StatisticsCalculator {
+    private static readonly HEATMAP_WEEKS = 52;
+    private static readonly NO_WORKSPACE = 'No workspace';
+    private clock: Clock;
+
+    constructor(clock: Clock = new SystemClock()) {
+        this.clock = clock;
+    }
+
+    /**
+     * Calculates dashboard statistics from history entries
+     * The streak counts days meeting the daily session goal, or with any completed session without one
+     */
+    public calculate(history: HistoryEntry[], dailySessionGoal: number = 0): DashboardStatistics {
+        const workSessions = history.filter(entry => entry.phase === TimerState.WORK_SESSION);
+        const completed = workSessions.filter(entry => this.isCompleted(entry));
+        const today = this.startOfDay(this.clock.now());
+        const sessionsPerDay = this.countSessionsPerDay(completed);
+
+        return {
+            todaySessions: sessionsPerDay.get(StatisticsCalculator.toDateKey(today)) ?? 0,
+            todayFocusTime: this.getFocusTime(workSessions, today),
+            weekFocusTime: this.getFocusTime(workSessions, this.startOfWeek(today)),
+            completedSessions: completed.length,
+            abandonedSessions: workSessions.length - completed.length,
+            averageSessionLength: completed.length > 0 ?
+                Math.round(completed.reduce((total, entry) => total + entry.actualDuration, 0) / completed.length) : 0,
+            currentStreak: this.getCurrentStreak(sessionsPerDay, today, Math.max(1, dailySessionGoal)),
+            dailyFocus: this.getDailyFocus(workSessions, today),
+            weekPhaseTotals: this.getPhaseTotals(history, this.startOfWeek(today)),
+            projectTotals: this.getFocusTotals(workSessions, today, StatisticsCalculator.getProjectName),
+            labelTotals: this.getFocusTotals(workSessions, today, entry => entry.label),
+            weekBreakViolations: history
+                .filter(entry => entry.startTime.getTime() >= this.startOfWeek(today).getTime())
+                .reduce((total, entry) => total + (entry.breakViolations ?? 0), 0)
+        };
+    }
+
+    /**
+     * Formats a date as a local YYYY-MM-DD key
+     */
+    public static toDateKey(date: Date): string {
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
+    /**
+     * Gets the project a history entry is credited to: its workspace folder, or else its workspace
+     */
+    public static getProjectName(entry: HistoryEntry): string {
+        return entry.workspaceFolder ?? entry.workspaceName ?? StatisticsCalculator.NO_WORKSPACE;
+    }
+
+    /**
+     * Checks if a work session counts as completed (skipped sessions ended early on purpose)
+     */
+    private isCompleted(entry: HistoryEntry): boolean {
+        return entry.status === 'completed' || entry.status === 'skipped';
+    }
+
+    /**
+     * Sums the focus time of work sessions that started on or after the given time
+     */
+    private getFocusTime(workSessions: HistoryEntry[], since: Date): number {
+        return workSessions
+            .filter(entry => entry.startTime.getTime() >= since.getTime())
+            .reduce((total, entry) => total + entry.actualDuration, 0);
+    }
+
+    /**
+     * Counts completed work sessions per local day
+     */
+    private countSessionsPerDay(completed: HistoryEntry[]): Map<string, number> {
+        const sessionsPerDay = new Map<string, number>();
+        for (const entry of completed) {
+            const date = StatisticsCalculator.toDateKey(entry.startTime);
+            sessionsPerDay.set(date, (sessionsPerDay.get(date) ?? 0) + 1);
+        }
+        return sessionsPerDay;
+    }
+
+    /**
+     * Counts consecutive days meeting the goal, ending today
+     * Today does not break the streak until it is over
+     */
+    private getCurrentStreak(sessionsPerDay: Map<string, number>, today: Date, goal: number): number {
+        const metGoal = (day: Date) => (sessionsPerDay.get(StatisticsCalculator.toDateKey(day)) ?? 0) >= goal;
+        const day = new Date(today);
+
+        if (!metGoal(day)) {
+            day.setDate(day.getDate() - 1);
+        }
+
+        let streak = 0;
+        while (metGoal(day)) {
+            streak++;
+            day.setDate(day.getDate() - 1);
+        }
+        return streak;
+    }
+
+    /**
+     * Builds per-day focus totals for the heatmap, starting on a Sunday so weeks line up
+     */
+    private getDailyFocus(workSessions: HistoryEntry[], today: Date): DailyFocus[] {
+        const totals = new Map<string, DailyFocus>();
+        const day = new Date(today);
+        day.setDate(day.getDate() - day.getDay() - (StatisticsCalculator.HEATMAP_WEEKS - 1) * 7);
+
+        while (day.getTime() <= today.getTime()) {
+            const date = StatisticsCalculator.toDateKey(day);
+            totals.set(date, { date, focusTime: 0, sessions: 0 });
+            day.setDate(day.getDate() + 1);
+        }
+
+        for (const entry of workSessions) {
+            const dailyFocus = totals.get(StatisticsCalculator.toDateKey(entry.startTime));
+            if (dailyFocus) {
+                dailyFocus.focusTime += entry.actualDuration;
+                dailyFocus.sessions += this.isCompleted(entry) ? 1 : 0;
+            }
+        }
+
+        return Array.from(totals.values());
+    }
+
+    /**
+     * Sums the time of every phase that started on or after the given time by phase name
+     * Steps of a custom sequence go by their own name, other phases by that of their kind
+     */
+    private getPhaseTotals(history: HistoryEntry[], since: Date): PhaseTotal[] {
+        const defaultNames: { [phase: string]: string } = {
+            [TimerState.WORK_SESSION]: 'Work session',
+            [TimerState.REST_PERIOD]: 'Rest period',
+            [TimerState.LONG_BREAK]: 'Long break',
+            [TimerState.OVERTIME]: 'Overtime'
+        };
+        const totals = new Map<string, PhaseTotal>();
+
+        for (const entry of history.filter(entry => entry.startTime.getTime() >= since.getTime())) {
+            const name = entry.phaseName ?? defaultNames[entry.phase] ?? entry.phase;
+            const key = `${entry.phase}|${name}`;
+            const total = totals.get(key) ?? { name, phase: entry.phase, time: 0, count: 0 };
+            total.time += entry.actualDuration;
+            total.count++;
+            totals.set(key, total);
+        }
+
+        return Array.from(totals.values()).sort((a, b) => b.time - a.time);
+    }
+
+    /**
+     * Sums the focus time and completed work sessions of each project or label, as named by getName
+     * Sessions without a name are left out
+     */
+    private getFocusTotals(
+        workSessions: HistoryEntry[],
+        today: Date,
+        getName: (entry: HistoryEntry) => string | undefined
+    ): FocusTotal[] {
+        const startOfWeek = this.startOfWeek(today);
+        const totals = new Map<string, FocusTotal>();
+
+        for (const entry of workSessions) {
+            const name = getName(entry);
+            if (!name) {
+                continue;
+            }
+
+            const total = totals.get(name) ?? { name, todayFocusTime: 0, weekFocusTime: 0, totalFocusTime: 0, completedSessions: 0 };
+            const startTime = entry.startTime.getTime();
+            total.todayFocusTime += startTime >= today.getTime() ? entry.actualDuration : 0;
+            total.weekFocusTime += startTime >= startOfWeek.getTime() ? entry.actualDuration : 0;
+            total.totalFocusTime += entry.actualDuration;
+            total.completedSessions += this.isCompleted(entry) ? 1 : 0;
+            totals.set(name, total);
+        }
+
+        return Array.from(totals.values())
+            .sort((a, b) => b.weekFocusTime - a.weekFocusTime || b.totalFocusTime - a.totalFocusTime);
+    }
+
+    /**
+     * Gets local midnight of the given date
+     */
+    private startOfDay(date: Date): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    /**
+     * Gets local midnight of the Monday starting the given date's week
+     */
+    private startOfWeek(date: Date): Date {
+        const daysSinceMonday = (date.getDay() + 6) % 7;
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+    }
+}
\ No newline at end of file
@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
-import { TimerState, TimerContext, ThemeColors, VisibilityOptions } from './types';
+import { TimerState, TimerContext, ThemeColors, VisibilityOptions, GoalProgress, InterruptionType, Task } from './types';
+import { TimeFormatter } from './timeFormatter';
+
+/**
+ * How a phase is shown in the status bar
+ */
+interface PhaseAppearance {
+    icon: string;
+    label: string;
+    color: string;
+}
 
 /**
  * Manages the VS Code status bar integration for the Work Session Manager
@@ -7,17 +17,29 @@ import { TimerState, TimerContext, ThemeColors, VisibilityOptions } from './type
  */
 export class StatusBarController {
     private statusBarItem: vscode.StatusBarItem;
+    private menuItem: vscode.StatusBarItem;
     private currentContext: TimerContext | null = null;
     private themeColors: ThemeColors;
     private visibilityOptions: VisibilityOptions;
+    private goalProgress: GoalProgress | null = null;
+    private presetName: string = '';
+    private activeTask: Task | undefined;
 
     constructor(
-        themeColors: ThemeColors = { workSessionColor: '#4CAF50', restPeriodColor: '#F44336' },
+        themeColors: ThemeColors = { workSessionColor: '#4CAF50', restPeriodColor: '#F44336', longBreakColor: '#9575CD' },
         visibilityOptions: VisibilityOptions = { showCountdown: true, showStatusDot: true, showPausePlayButton: true }
     ) {
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
         this.themeColors = themeColors;
         this.visibilityOptions = visibilityOptions;
+        
+        // Opens the actions of the timer, such as logging an interruption, next to it
+        this.menuItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.menuItem.text = '$(list-unordered)';
+        this.menuItem.tooltip = 'Work Session Manager menu';
+        this.menuItem.command = 'workSessionManager.showMenu';
+        this.menuItem.show();
+        
         this.statusBarItem.show();
         this.updateDisplay();
     }
@@ -35,15 +57,27 @@ export class StatusBarController {
             return;
         }
 
+        // Overtime is highlighted with the theme's warning background
+        this.statusBarItem.backgroundColor = this.currentContext.currentState === TimerState.OVERTIME ?
+            new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
         switch (this.currentContext.currentState) {
             case TimerState.IDLE:
                 this.showIdleState();
                 break;
             case TimerState.WORK_SESSION:
-                this.showWorkSessionState();
+                if (this.currentContext.countUp) {
+                    this.showFlowSessionState();
+                } else {
+                    this.showCountdownState(TimerState.WORK_SESSION);
+                }
                 break;
             case TimerState.REST_PERIOD:
-                this.showRestPeriodState();
+            case TimerState.LONG_BREAK:
+                this.showCountdownState(this.currentContext.currentState);
+                break;
+            case TimerState.OVERTIME:
+                this.showOvertimeState();
                 break;
             case TimerState.PAUSED:
                 this.showPausedState();
@@ -65,66 +99,137 @@ export class StatusBarController {
             parts.push('Ready');
         }
         
+        this.appendGoalProgress(parts);
+        
         if (this.visibilityOptions.showPausePlayButton) {
             parts.push('▶️'); // Play button
         }
         
         this.statusBarItem.text = parts.join(' ');
-        this.statusBarItem.tooltip = 'Work Session Manager - Click to start work session';
+        this.statusBarItem.tooltip = this.withTooltipDetails('Work Session Manager - Click to start work session');
         this.statusBarItem.command = 'workSessionManager.startSession';
         this.statusBarItem.color = undefined; // Use default color
     }
 
     /**
-     * Shows work session state in status bar
+     * Shows a phase counting down (work session, rest period, long break or a step of a custom sequence)
      */
-    private showWorkSessionState(): void {
-        if (!this.currentContext) return;
+    private showCountdownState(state: TimerState): void {
+        if (!this.currentContext) {
+            return;
+        }
         
+        const appearance = this.getPhaseAppearance(state);
+        const remainingTime = TimeFormatter.formatTime(this.currentContext.remainingTime);
         const parts: string[] = [];
         
         if (this.visibilityOptions.showStatusDot) {
-            parts.push('🟢'); // Green dot for work session
+            parts.push(appearance.icon);
         }
         
         if (this.visibilityOptions.showCountdown) {
-            parts.push(this.formatTime(this.currentContext.remainingTime));
+            parts.push(remainingTime);
         }
         
+        this.appendGoalProgress(parts);
+        
         if (this.visibilityOptions.showPausePlayButton) {
             parts.push('⏸️'); // Pause button
         }
         
         this.statusBarItem.text = parts.join(' ');
-        this.statusBarItem.tooltip = `Work Session - ${this.formatTime(this.currentContext.remainingTime)} remaining. Click to pause.`;
+        this.statusBarItem.tooltip = this.withTooltipDetails(`${appearance.label} - ${remainingTime} remaining. Click to pause.`);
         this.statusBarItem.command = 'workSessionManager.pause';
+        this.statusBarItem.color = appearance.color;
+    }
+
+    /**
+     * Gets the icon, label and color of a phase, taking those of a custom sequence step over the defaults
+     */
+    private getPhaseAppearance(state: TimerState): PhaseAppearance {
+        const defaults: { [state: string]: PhaseAppearance } = {
+            [TimerState.WORK_SESSION]: { icon: '🟢', label: 'Work Session', color: this.themeColors.workSessionColor },
+            [TimerState.REST_PERIOD]: { icon: '🔵', label: 'Rest Period', color: this.themeColors.restPeriodColor },
+            [TimerState.LONG_BREAK]: {
+                icon: '🟣',
+                label: 'Long Break',
+                color: this.themeColors.longBreakColor ?? this.themeColors.restPeriodColor
+            }
+        };
+        const appearance = defaults[state] ?? defaults[TimerState.WORK_SESSION];
+        const step = this.currentContext?.sequenceStep;
+        
+        if (!step) {
+            return appearance;
+        }
+        
+        return {
+            icon: step.icon ?? appearance.icon,
+            label: step.name,
+            color: step.color ?? appearance.color
+        };
+    }
+
+    /**
+     * Shows a flowtime work session, counting up the time focused so far
+     */
+    private showFlowSessionState(): void {
+        if (!this.currentContext) {
+            return;
+        }
+        
+        const elapsed = TimeFormatter.formatTime(this.currentContext.elapsedTime ?? 0);
+        const parts: string[] = [];
+        
+        if (this.visibilityOptions.showStatusDot) {
+            parts.push('🟢'); // Green dot for work session
+        }
+        
+        if (this.visibilityOptions.showCountdown) {
+            parts.push(elapsed);
+        }
+        
+        this.appendGoalProgress(parts);
+        
+        if (this.visibilityOptions.showPausePlayButton) {
+            parts.push('☕'); // Break button
+        }
+        
+        this.statusBarItem.text = parts.join(' ');
+        this.statusBarItem.tooltip = this.withTooltipDetails(`Flow Session - ${elapsed} focused. Click to take a break.`);
+        this.statusBarItem.command = 'workSessionManager.takeBreak';
         this.statusBarItem.color = this.themeColors.workSessionColor;
     }
 
     /**
-     * Shows rest period state in status bar
+     * Shows overtime (counting up past the end of a work session) in status bar
      */
-    private showRestPeriodState(): void {
-        if (!this.currentContext) return;
+    private showOvertimeState(): void {
+        if (!this.currentContext) {
+            return;
+        }
         
+        const overtime = `+${TimeFormatter.formatTime(this.currentContext.elapsedTime ?? 0)}`;
         const parts: string[] = [];
         
         if (this.visibilityOptions.showStatusDot) {
-            parts.push('🔵'); // Blue dot for rest period
+            parts.push('🟠'); // Orange dot for overtime
         }
         
         if (this.visibilityOptions.showCountdown) {
-            parts.push(this.formatTime(this.currentContext.remainingTime));
+            parts.push(overtime);
         }
         
+        this.appendGoalProgress(parts);
+        
         if (this.visibilityOptions.showPausePlayButton) {
-            parts.push('⏸️'); // Pause button
+            parts.push('☕'); // Break button
         }
         
         this.statusBarItem.text = parts.join(' ');
-        this.statusBarItem.tooltip = `Rest Period - ${this.formatTime(this.currentContext.remainingTime)} remaining. Click to pause.`;
-        this.statusBarItem.command = 'workSessionManager.pause';
-        this.statusBarItem.color = this.themeColors.restPeriodColor;
+        this.statusBarItem.tooltip = this.withTooltipDetails(`Overtime - ${overtime} past the end of the work session. Click to take a break.`);
+        this.statusBarItem.command = 'workSessionManager.takeBreak';
+        this.statusBarItem.color = new vscode.ThemeColor('statusBarItem.warningForeground');
     }
 
     /**
@@ -139,20 +244,141 @@ export class StatusBarController {
             parts.push('🟡'); // Yellow dot for paused state
         }
         
+        // A paused flow session shows the time focused instead of the time left
+        const countUp = !!this.currentContext.countUp;
+        const time = TimeFormatter.formatTime(countUp ? this.currentContext.elapsedTime ?? 0 : this.currentContext.remainingTime);
+        
         if (this.visibilityOptions.showCountdown) {
-            parts.push(this.formatTime(this.currentContext.remainingTime));
+            parts.push(time);
         }
         
+        this.appendGoalProgress(parts);
+        
         if (this.visibilityOptions.showPausePlayButton) {
             parts.push('▶️'); // Play button only
         }
         
+        const step = this.currentContext.sequenceStep;
+        const label = countUp ? 'Flow session paused' : step ? `${step.name} paused` : this.getPausedLabel(this.currentContext.pausedFrom);
+        const reason = this.currentContext.idlePaused ? ' while you were away' : '';
         this.statusBarItem.text = parts.join(' ');
-        this.statusBarItem.tooltip = `Timer Paused - ${this.formatTime(this.currentContext.remainingTime)} remaining. Click to resume.`;
+        this.statusBarItem.tooltip = this.withTooltipDetails(`${label}${reason} - ${time} ${countUp ? 'focused' : 'remaining'}. Click to resume.`);
         this.statusBarItem.command = 'workSessionManager.resume';
         this.statusBarItem.color = '#FFA500'; // Orange color for paused state
     }
 
+    /**
+     * Describes which phase a paused timer belongs to
+     */
+    private getPausedLabel(pausedFrom?: TimerState): string {
+        switch (pausedFrom) {
+            case TimerState.WORK_SESSION:
+                return 'Work session paused';
+            case TimerState.REST_PERIOD:
+                return 'Rest paused';
+            case TimerState.LONG_BREAK:
+                return 'Long break paused';
+            default:
+                return 'Timer Paused';
+        }
+    }
+
+    /**
+     * Sets the goal progress shown next to the countdown, or null to hide it
+     */
+    public setGoalProgress(progress: GoalProgress | null): void {
+        this.goalProgress = progress;
+        this.updateDisplay();
+    }
+
+    /**
+     * Sets the name of the active preset shown in the tooltip, or an empty string to hide it
+     */
+    public setPresetName(name: string): void {
+        this.presetName = name;
+        this.updateDisplay();
+    }
+
+    /**
+     * Sets the active task shown in the tooltip with its estimate, or undefined to hide it
+     */
+    public setActiveTask(task: Task | undefined): void {
+        this.activeTask = task;
+        this.updateDisplay();
+    }
+
+    /**
+     * Appends daily goal progress (e.g. "· 3/8") when a daily goal is set
+     */
+    private appendGoalProgress(parts: string[]): void {
+        if (this.goalProgress && this.goalProgress.dailySessionGoal > 0) {
+            parts.push(`· ${this.goalProgress.todaySessions}/${this.goalProgress.dailySessionGoal}`);
+        }
+    }
+
+    /**
+     * Adds the label, distractions and interruptions of the work session, the active task and preset and a goal summary line
+     * to a tooltip
+     */
+    private withTooltipDetails(tooltip: string): string {
+        if (this.currentContext?.label && this.isWorkPhase(this.currentContext)) {
+            tooltip += `\nWorking on: ${this.currentContext.label}`;
+        }
+        
+        const focusLosses = this.currentContext?.focusLosses ?? 0;
+        if (focusLosses > 0) {
+            const timeAway = TimeFormatter.formatTime(this.currentContext?.timeAway ?? 0);
+            tooltip += `\nLeft VS Code ${focusLosses} ${focusLosses === 1 ? 'time' : 'times'} · ${timeAway} away`;
+        }
+        
+        const interruptions = this.currentContext?.interruptions ?? [];
+        if (interruptions.length > 0) {
+            const internal = interruptions.filter(interruption => interruption.type === 'internal').length;
+            tooltip += `\nInterruptions: ${interruptions.length} (${internal} internal, ${interruptions.length - internal} external)`;
+        }
+        
+        if (this.activeTask) {
+            const { title, estimate, actual } = this.activeTask;
+            const progress = estimate > 0 ? `${actual}/${estimate} sessions` : `${actual} ${actual === 1 ? 'session' : 'sessions'}`;
+            tooltip += `\nTask: ${title} · ${progress}${estimate > 0 && actual > estimate ? ' ⚠️ over estimate' : ''}`;
+        }
+        
+        if (this.presetName) {
+            tooltip += `\nPreset: ${this.presetName}`;
+        }
+        
+        if (!this.goalProgress) {
+            return tooltip;
+        }
+
+        const { todaySessions, dailySessionGoal, weekFocusTime, weeklyFocusGoal, streak } = this.goalProgress;
+        const summary: string[] = [];
+        
+        if (dailySessionGoal > 0) {
+            summary.push(`Today: ${todaySessions}/${dailySessionGoal} sessions`);
+        }
+        
+        if (weeklyFocusGoal > 0) {
+            const hours = Math.floor(weekFocusTime / 3600);
+            const minutes = Math.floor((weekFocusTime % 3600) / 60);
+            summary.push(`This week: ${hours}h ${minutes.toString().padStart(2, '0')}m of ${weeklyFocusGoal}h`);
+        }
+        
+        if (streak > 0) {
+            summary.push(`Streak: ${streak} ${streak === 1 ? 'day' : 'days'}`);
+        }
+        
+        return summary.length > 0 ? `${tooltip}\n${summary.join(' · ')}` : tooltip;
+    }
+
+    /**
+     * Checks if a work session or its overtime is running or paused
+     */
+    private isWorkPhase(context: TimerContext): boolean {
+        const phase = context.currentState === TimerState.PAUSED ? context.pausedFrom : context.currentState;
+        return phase === TimerState.WORK_SESSION || phase === TimerState.OVERTIME;
+    }
+
     /**
      * Applies new theme colors
      */
@@ -185,15 +411,6 @@ export class StatusBarController {
         this.updateDisplay();
     }
 
-    /**
-     * Formats time in MM:SS format
-     */
-    private formatTime(seconds: number): string {
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = seconds % 60;
-        return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-    }
-
     /**
      * Shows a temporary message in the status bar
      */
@@ -230,6 +447,27 @@ export class StatusBarController {
         this.showTemporaryMessage('✅ Rest Period Complete!', 5000);
     }
 
+    /**
+     * Shows long break completion notification
+     */
+    public showLongBreakComplete(): void {
+        this.showTemporaryMessage('✅ Long Break Complete!', 5000);
+    }
+
+    /**
+     * Shows completion of a step of a custom phase sequence
+     */
+    public showPhaseComplete(name: string): void {
+        this.showTemporaryMessage(`✅ ${name} Complete!`, 5000);
+    }
+
+    /**
+     * Shows that a step of a custom phase sequence started
+     */
+    public showPhaseStarted(name: string): void {
+        this.showTemporaryMessage(`▶️ ${name} Started`, 2000);
+    }
+
     /**
      * Shows timer started notification
      */
@@ -238,6 +476,13 @@ export class StatusBarController {
         this.showTemporaryMessage(message, 2000);
     }
 
+    /**
+     * Shows long break started notification
+     */
+    public showLongBreakStarted(): void {
+        this.showTemporaryMessage('▶️ Long Break Started', 2000);
+    }
+
     /**
      * Shows timer paused notification
      */
@@ -245,6 +490,13 @@ export class StatusBarController {
         this.showTemporaryMessage('⏸️ Timer Paused', 2000);
     }
 
+    /**
+     * Shows that a work session paused because the user went idle
+     */
+    public showIdlePaused(): void {
+        this.showTemporaryMessage('💤 Paused While Away', 3000);
+    }
+
     /**
      * Shows timer resumed notification
      */
@@ -252,6 +504,13 @@ export class StatusBarController {
         this.showTemporaryMessage('▶️ Timer Resumed', 2000);
     }
 
+    /**
+     * Shows the time left after the remaining time was adjusted
+     */
+    public showTimeAdjusted(remainingTime: number): void {
+        this.showTemporaryMessage(`⏱️ ${TimeFormatter.formatTime(remainingTime)} left`, 2000);
+    }
+
     /**
      * Shows timer reset notification
      */
@@ -259,6 +518,20 @@ export class StatusBarController {
         this.showTemporaryMessage('🔄 Timer Reset', 2000);
     }
 
+    /**
+     * Shows that an interruption was logged
+     */
+    public showInterruptionLogged(type: InterruptionType): void {
+        this.showTemporaryMessage(type === 'internal' ? "' Internal Interruption Logged" : '- External Interruption Logged', 2000);
+    }
+
+    /**
+     * Shows that an external interruption voided the work session
+     */
+    public showSessionVoided(): void {
+        this.showTemporaryMessage('🚫 Work Session Voided', 3000);
+    }
+
     /**
      * Gets current visibility options
      */
@@ -292,23 +565,26 @@ export class StatusBarController {
     }
 
     /**
-     * Hides the status bar item
+     * Hides the status bar items
      */
     public hide(): void {
         this.statusBarItem.hide();
+        this.menuItem.hide();
     }
 
     /**
-     * Shows the status bar item
+     * Shows the status bar items
      */
     public show(): void {
         this.statusBarItem.show();
+        this.menuItem.show();
     }
 
     /**
-     * Disposes of the status bar item
+     * Disposes of the status bar items
      */
     public dispose(): void {
         this.statusBarItem.dispose();
+        this.menuItem.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Clock, EstimateStatus, PersistedTasks, Task } from './types';
+import { SystemClock } from './clock';
+import { StateManager } from './stateManager';
+
+/**
+ * Keeps the tasks planned for the day in order, with the active one that completed work sessions are credited to
+ * The list is persisted alongside the timer state, so every window shares it
+ *
+ * Events:
+ * - 'change' () when a task is added, edited, completed, moved, made active or credited with a work session
+ */
+export class TaskStore extends EventEmitter {
+    private static readonly MAX_ESTIMATE = 20; // work sessions
+
+    private stateManager: StateManager;
+    private clock: Clock;
+
+    constructor(stateManager: StateManager, clock: Clock = new SystemClock()) {
+        super();
+        this.stateManager = stateManager;
+        this.clock = clock;
+    }
+
+    /**
+     * Gets the tasks in the order planned, done ones included
+     */
+    public getTasks(): Task[] {
+        return this.stateManager.loadTasks().tasks;
+    }
+
+    /**
+     * Gets the task completed work sessions are credited to, if any
+     */
+    public getActiveTask(): Task | undefined {
+        const { tasks, activeTaskId } = this.stateManager.loadTasks();
+        return tasks.find(task => task.id === activeTaskId);
+    }
+
+    /**
+     * Adds a task at the end of the list, making it active if no other task is
+     */
+    public async addTask(title: string, estimate: number): Promise<Task> {
+        const task: Task = {
+            id: randomBytes(4).toString('hex'),
+            title: title.trim(),
+            estimate: this.clampEstimate(estimate),
+            actual: 0,
+            createdAt: this.clock.now().getTime()
+        };
+
+        const list = this.stateManager.loadTasks();
+        await this.save({ tasks: [...list.tasks, task], activeTaskId: list.activeTaskId ?? task.id });
+        return task;
+    }
+
+    /**
+     * Changes the title or estimate of a task
+     * Returns the task as changed, or undefined if there is no such task
+     */
+    public async editTask(id: string, changes: { title?: string; estimate?: number }): Promise<Task | undefined> {
+        return this.updateTask(id, task => ({
+            ...task,
+            title: changes.title?.trim() || task.title,
+            estimate: changes.estimate !== undefined ? this.clampEstimate(changes.estimate) : task.estimate
+        }));
+    }
+
+    /**
+     * Marks a task as done; it stops being the active task
+     * Returns the task as completed, or undefined if there is no such open task
+     */
+    public async completeTask(id: string): Promise<Task | undefined> {
+        const list = this.stateManager.loadTasks();
+        const task = list.tasks.find(candidate => candidate.id === id);
+        if (!task || task.completedAt !== undefined) {
+            return undefined;
+        }
+
+        const completed: Task = { ...task, completedAt: this.clock.now().getTime() };
+        await this.save({
+            tasks: list.tasks.map(candidate => candidate.id === id ? completed : candidate),
+            activeTaskId: list.activeTaskId === id ? undefined : list.activeTaskId
+        });
+        return completed;
+    }
+
+    /**
+     * Moves an open task before the previous (-1) or after the next (1) open task
+     * Returns false if it cannot move that way
+     */
+    public async moveTask(id: string, direction: -1 | 1): Promise<boolean> {
+        const list = this.stateManager.loadTasks();
+        const index = list.tasks.findIndex(task => task.id === id);
+        if (index < 0 || list.tasks[index].completedAt !== undefined) {
+            return false;
+        }
+
+        // Done tasks in between keep their place
+        let neighbor = index + direction;
+        while (neighbor >= 0 && neighbor < list.tasks.length && list.tasks[neighbor].completedAt !== undefined) {
+            neighbor += direction;
+        }
+        if (neighbor < 0 || neighbor >= list.tasks.length) {
+            return false;
+        }
+
+        const tasks = [...list.tasks];
+        [tasks[index], tasks[neighbor]] = [tasks[neighbor], tasks[index]];
+        await this.save({ ...list, tasks });
+        return true;
+    }
+
+    /**
+     * Makes an open task the one completed work sessions are credited to, or with undefined none
+     * Returns false if there is no such open task
+     */
+    public async setActiveTask(id: string | undefined): Promise<boolean> {
+        const list = this.stateManager.loadTasks();
+        if (id !== undefined && !list.tasks.some(task => task.id === id && task.completedAt === undefined)) {
+            return false;
+        }
+
+        await this.save({ ...list, activeTaskId: id });
+        return true;
+    }
+
+    /**
+     * Credits a completed work session to the active task
+     * Returns the task as credited, or undefined if no task is active
+     */
+    public async creditSession(): Promise<Task | undefined> {
+        const active = this.getActiveTask();
+        return active && this.updateTask(active.id, task => ({ ...task, actual: task.actual + 1 }));
+    }
+
+    /**
+     * Compares the work sessions a task has taken to its estimate
+     */
+    public getEstimateStatus(task: Task): EstimateStatus {
+        if (task.estimate === 0) {
+            return 'unestimated';
+        }
+        if (task.actual > task.estimate) {
+            return 'over';
+        }
+        return task.actual === task.estimate ? 'met' : 'under';
+    }
+
+    /**
+     * Parses an estimate typed by the user: a whole number of work sessions, empty for none
+     * Returns null if the input is not an estimate
+     */
+    public parseEstimate(input: string): number | null {
+        const value = input.trim();
+        if (value === '') {
+            return 0;
+        }
+
+        const estimate = Number(value);
+        return Number.isInteger(estimate) && estimate >= 0 && estimate <= TaskStore.MAX_ESTIMATE ? estimate : null;
+    }
+
+    /**
+     * Replaces a task with the result of a change
+     */
+    private async updateTask(id: string, change: (task: Task) => Task): Promise<Task | undefined> {
+        const list = this.stateManager.loadTasks();
+        const task = list.tasks.find(candidate => candidate.id === id);
+        if (!task) {
+            return undefined;
+        }
+
+        const changed = change(task);
+        await this.save({ ...list, tasks: list.tasks.map(candidate => candidate.id === id ? changed : candidate) });
+        return changed;
+    }
+
+    /**
+     * Persists the task list and tells listeners
+     */
+    private async save(list: PersistedTasks): Promise<void> {
+        await this.stateManager.saveTasks(list);
+        this.emit('change');
+    }
+
+    /**
+     * Keeps an estimate a whole number of work sessions within bounds
+     */
+    private clampEstimate(estimate: number): number {
+        return Math.min(TaskStore.MAX_ESTIMATE, Math.max(0, Math.round(estimate)));
+    }
+
+    /**
+     * Removes all listeners
+     */
+    public dispose(): void {
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
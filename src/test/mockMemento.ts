@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+
+/**
+ * In-memory stand-in for the global state VS Code keeps for the extension and shares across its windows
+ */
+export class MockMemento implements vscode.Memento {
+    private storage = new Map<string, any>();
+    
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.storage.has(key) ? this.storage.get(key) : defaultValue;
+    }
+    
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            this.storage.delete(key);
+        } else {
+            this.storage.set(key, value);
+        }
+    }
+    
+    keys(): readonly string[] {
+        return Array.from(this.storage.keys());
+    }
+    
+    setKeysForSync(keys: readonly string[]): void {
+        // Mock implementation - no-op for testing
+    }
+}
\ No newline at end of file
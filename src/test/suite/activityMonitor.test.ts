@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ActivityMonitor } from '../../activityMonitor';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+suite('ActivityMonitor Tests', () => {
+    let clock: VirtualClock;
+    let globalState: MockMemento;
+    let monitors: ActivityMonitor[];
+
+    function createMonitor(): ActivityMonitor {
+        const monitor = new ActivityMonitor({ globalState } as any, clock);
+        monitors.push(monitor);
+        return monitor;
+    }
+
+    setup(() => {
+        clock = new VirtualClock();
+        globalState = new MockMemento();
+        monitors = [];
+    });
+
+    teardown(() => {
+        monitors.forEach(monitor => monitor.dispose());
+    });
+
+    test('Should report idleness once after the threshold and the return of activity', async () => {
+        const monitor = createMonitor();
+        const idle: Date[] = [];
+        const active: Date[] = [];
+        monitor.on('idle', (lastActivity: Date) => idle.push(lastActivity));
+        monitor.on('active', (idleSince: Date) => active.push(idleSince));
+        
+        monitor.start(60);
+        await clock.advance(30 * 1000);
+        monitor.recordActivity();
+        const lastActivity = clock.now();
+        
+        await clock.advance(55 * 1000);
+        assert.strictEqual(idle.length, 0);
+        
+        await clock.advance(10 * 60 * 1000);
+        assert.strictEqual(idle.length, 1);
+        assert.strictEqual(idle[0].getTime(), lastActivity.getTime());
+        assert.strictEqual(monitor.isIdle(), true);
+        
+        monitor.recordActivity();
+        assert.strictEqual(active.length, 1);
+        assert.strictEqual(active[0].getTime(), lastActivity.getTime());
+        assert.strictEqual(monitor.isIdle(), false);
+    });
+
+    test('Activity in another window should count for every window', async () => {
+        const first = createMonitor();
+        const second = createMonitor();
+        const idle: Date[] = [];
+        const active: Date[] = [];
+        first.on('idle', (lastActivity: Date) => idle.push(lastActivity));
+        first.on('active', (idleSince: Date) => active.push(idleSince));
+        
+        first.start(60);
+        second.start(60);
+        for (let i = 0; i < 5; i++) {
+            await clock.advance(30 * 1000);
+            second.recordActivity();
+        }
+        assert.strictEqual(idle.length, 0);
+        
+        await clock.advance(2 * 60 * 1000);
+        assert.strictEqual(idle.length, 1);
+        
+        second.recordActivity();
+        await clock.advance(5 * 1000);
+        assert.strictEqual(first.isIdle(), false);
+        assert.strictEqual(active.length, 0); // Reported by the window the user came back to
+    });
+
+    test('Stopping should end monitoring without reporting idleness', async () => {
+        const monitor = createMonitor();
+        let idleCount = 0;
+        monitor.on('idle', () => idleCount++);
+        
+        monitor.start(60);
+        assert.strictEqual(monitor.isStarted(), true);
+        monitor.stop();
+        
+        await clock.advance(10 * 60 * 1000);
+        assert.strictEqual(monitor.isStarted(), false);
+        assert.strictEqual(idleCount, 0);
+        assert.strictEqual(clock.getPendingCount(), 0);
+    });
+});
\ No newline at end of file
@@ -114,6 +114,152 @@ suite('ConfigurationManager Test Suite', () => {
         assert.strictEqual(config.restDuration, 60);
     });
 
+    test('Should validate long break settings', () => {
+        mockConfig.setConfig('longBreakDuration', 90);
+        mockConfig.setConfig('longBreakInterval', 0);
+        
+        const config = configManager.getConfiguration();
+        assert.strictEqual(config.longBreakDuration, 60);
+        assert.strictEqual(config.longBreakInterval, 1);
+    });
+
+    test('Should validate goal settings', () => {
+        let config = configManager.getConfiguration();
+        assert.strictEqual(config.dailySessionGoal, 0); // Disabled by default
+        assert.strictEqual(config.weeklyFocusGoal, 0);
+
+        mockConfig.setConfig('dailySessionGoal', 8.7);
+        mockConfig.setConfig('weeklyFocusGoal', 100);
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.dailySessionGoal, 8);
+        assert.strictEqual(config.weeklyFocusGoal, 80);
+    });
+
+    test('Should validate flowtime settings', () => {
+        let config = configManager.getConfiguration();
+        assert.strictEqual(config.timerMode, 'pomodoro');
+        assert.strictEqual(config.flowtimeBreakRatio, 5);
+
+        mockConfig.setConfig('timerMode', 'stopwatch');
+        mockConfig.setConfig('flowtimeBreakRatio', 0);
+        mockConfig.setConfig('flowtimeMinBreak', 20);
+        mockConfig.setConfig('flowtimeMaxBreak', 10);
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.timerMode, 'pomodoro');
+        assert.strictEqual(config.flowtimeBreakRatio, 1);
+        assert.strictEqual(config.flowtimeMinBreak, 20);
+        assert.strictEqual(config.flowtimeMaxBreak, 20); // Never below the minimum
+    });
+
+    test('Should validate the time adjustment step', () => {
+        assert.strictEqual(configManager.getConfiguration().timeAdjustmentStep, 5);
+
+        mockConfig.setConfig('timeAdjustmentStep', 90);
+        assert.strictEqual(configManager.getConfiguration().timeAdjustmentStep, 60);
+    });
+
+    test('Should validate the idle detection settings', () => {
+        let config = configManager.getConfiguration();
+        assert.strictEqual(config.idleDetection, 'off');
+        assert.strictEqual(config.idleThreshold, 5);
+
+        mockConfig.setConfig('idleDetection', 'prompt');
+        mockConfig.setConfig('idleThreshold', 0);
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.idleDetection, 'prompt');
+        assert.strictEqual(config.idleThreshold, 1);
+
+        mockConfig.setConfig('idleDetection', 'always');
+        mockConfig.setConfig('idleThreshold', 7.5);
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.idleDetection, 'off');
+        assert.strictEqual(config.idleThreshold, 7);
+    });
+
+    test('Should validate the away reminder', () => {
+        assert.strictEqual(configManager.getConfiguration().awayReminder, 0);
+
+        mockConfig.setConfig('awayReminder', 200);
+        assert.strictEqual(configManager.getConfiguration().awayReminder, 120);
+
+        mockConfig.setConfig('awayReminder', -5);
+        assert.strictEqual(configManager.getConfiguration().awayReminder, 0);
+    });
+
+    test('Should validate the break enforcement mode', () => {
+        assert.strictEqual(configManager.getConfiguration().breakEnforcement, 'off');
+
+        mockConfig.setConfig('breakEnforcement', 'strict');
+        assert.strictEqual(configManager.getConfiguration().breakEnforcement, 'strict');
+
+        mockConfig.setConfig('breakEnforcement', 'lockScreen');
+        assert.strictEqual(configManager.getConfiguration().breakEnforcement, 'off');
+    });
+
+    test('Should validate the do not disturb settings', () => {
+        let config = configManager.getConfiguration();
+        assert.strictEqual(config.doNotDisturb, 'off');
+        assert.deepStrictEqual(config.doNotDisturbPanels, ['sideBar', 'panel']);
+        assert.strictEqual(config.doNotDisturbNotifications, true);
+
+        mockConfig.setConfig('doNotDisturb', 'hidePanels');
+        mockConfig.setConfig('doNotDisturbPanels', ['auxiliaryBar', 'minimap', 'auxiliaryBar']);
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.doNotDisturb, 'hidePanels');
+        assert.deepStrictEqual(config.doNotDisturbPanels, ['auxiliaryBar']);
+
+        mockConfig.setConfig('doNotDisturb', 'fullScreen');
+        mockConfig.setConfig('doNotDisturbPanels', 'sideBar');
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.doNotDisturb, 'off');
+        assert.deepStrictEqual(config.doNotDisturbPanels, ['sideBar', 'panel']);
+    });
+
+    test('Should apply the durations of the active preset', () => {
+        mockConfig.setConfig('activePreset', '52/17');
+        let config = configManager.getConfiguration();
+        assert.strictEqual(config.activePreset, '52/17');
+        assert.strictEqual(config.sessionDuration, 52);
+        assert.strictEqual(config.restDuration, 17);
+        assert.strictEqual(config.longBreakDuration, 15); // From the setting
+
+        mockConfig.setConfig('presets', [
+            { name: 'Deep Work', sessionDuration: 50, restDuration: 10, longBreakDuration: 90 },
+            { name: '52/17', sessionDuration: 45, restDuration: 15 },
+            { name: 'Broken', sessionDuration: 'long' }
+        ]);
+        mockConfig.setConfig('activePreset', 'deep work');
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.activePreset, 'Deep Work');
+        assert.strictEqual(config.sessionDuration, 50);
+        assert.strictEqual(config.longBreakDuration, 60);
+        assert.deepStrictEqual(configManager.getPresets(config.presets).map(preset => preset.name),
+            ['Pomodoro', 'Ultradian 90/20', 'Deep Work', '52/17']);
+
+        mockConfig.setConfig('activePreset', 'Missing');
+        config = configManager.getConfiguration();
+        assert.strictEqual(config.activePreset, '');
+        assert.strictEqual(config.sessionDuration, 25);
+    });
+
+    test('Should validate the phase sequence', () => {
+        assert.deepStrictEqual(configManager.getConfiguration().phaseSequence, []);
+
+        mockConfig.setConfig('phaseSequence', [
+            { name: ' Planning ', kind: 'work', duration: 10.5, icon: '📝', color: 'orange', sound: 'none' },
+            { name: 'Deep Work', kind: 'work', duration: 300, color: 'not-a-color', sound: 'bell' },
+            { name: 'Nap', kind: 'sleep', duration: 20 },
+            { kind: 'rest', duration: 10 }
+        ]);
+        assert.deepStrictEqual(configManager.getConfiguration().phaseSequence, [
+            { name: 'Planning', kind: 'work', duration: 10, color: 'orange', icon: '📝', sound: 'none' },
+            { name: 'Deep Work', kind: 'work', duration: 240, color: undefined, icon: undefined, sound: undefined }
+        ]);
+
+        mockConfig.setConfig('phaseSequence', 'work, rest');
+        assert.deepStrictEqual(configManager.getConfiguration().phaseSequence, []);
+    });
+
     test('Should accept valid hex colors', () => {
         mockConfig.setConfig('workSessionColor', '#FF0000');
         mockConfig.setConfig('restPeriodColor', '#00FF00');
@@ -226,6 +372,40 @@ suite('ConfigurationManager Test Suite', () => {
         assert.strictEqual(config.autoStartWork, defaults.autoStartWork);
     });
 
+    test('Should report an invalid value once and read single values from the validated configuration', () => {
+        const warnings: string[] = [];
+        const originalShowWarningMessage = vscode.window.showWarningMessage;
+        (vscode.window as any).showWarningMessage = (message: string) => warnings.push(message);
+        let changed: ((event: vscode.ConfigurationChangeEvent) => void) | undefined;
+        const originalOnDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration;
+        (vscode.workspace as any).onDidChangeConfiguration = (listener: (event: vscode.ConfigurationChangeEvent) => void) => {
+            changed = listener;
+            return { dispose: () => undefined };
+        };
+        
+        try {
+            const received: number[] = [];
+            configManager.onConfigurationChanged(config => received.push(config.sessionDuration));
+            mockConfig.setConfig('sessionDuration', 'long');
+            configManager.getConfiguration();
+            const reported = warnings.length;
+            assert.strictEqual(warnings.filter(message => message.includes("'sessionDuration'")).length, 1);
+            assert.strictEqual(configManager.getConfigValue('sessionDuration'), 25);
+            assert.strictEqual(configManager.getConfigValue('sessionDuration'), 25);
+            assert.strictEqual(warnings.length, reported);
+            
+            // A change validates the configuration again
+            mockConfig.setConfig('sessionDuration', 40);
+            changed?.({ affectsConfiguration: () => true });
+            assert.deepStrictEqual(received, [40]);
+            assert.strictEqual(configManager.getConfigValue('sessionDuration'), 40);
+            assert.strictEqual(warnings.filter(message => message.includes("'sessionDuration'")).length, 1);
+        } finally {
+            (vscode.window as any).showWarningMessage = originalShowWarningMessage;
+            (vscode.workspace as any).onDidChangeConfiguration = originalOnDidChangeConfiguration;
+        }
+    });
+
     test('Should get theme colors', () => {
         mockConfig.setConfig('workSessionColor', '#00FF00');
         mockConfig.setConfig('restPeriodColor', '#FF0000');
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DoNotDisturbController } from '../../doNotDisturb';
+import { WorkbenchState } from '../../types';
+
+suite('DoNotDisturbController Test Suite', () => {
+    let controller: DoNotDisturbController;
+    let state: WorkbenchState;
+    let executed: string[];
+    let unavailable: string[];
+    let originalExecuteCommand: typeof vscode.commands.executeCommand;
+
+    setup(() => {
+        // Everything is visible and nothing silenced unless a test says otherwise
+        state = { zenMode: false, notificationsSilenced: false, visiblePanels: ['sideBar', 'panel', 'auxiliaryBar'] };
+        controller = new DoNotDisturbController(async () => state);
+        executed = [];
+        unavailable = [];
+        
+        // Record workbench commands instead of running them
+        originalExecuteCommand = vscode.commands.executeCommand;
+        (vscode.commands as any).executeCommand = async (command: string) => {
+            if (unavailable.includes(command)) {
+                throw new Error(`command '${command}' not found`);
+            }
+            executed.push(command);
+        };
+    });
+
+    teardown(() => {
+        (vscode.commands as any).executeCommand = originalExecuteCommand;
+    });
+
+    test('Should hide panels and silence notifications, then restore them', async () => {
+        await controller.enter('hidePanels', ['sideBar', 'panel'], true);
+        assert.strictEqual(controller.isActive(), true);
+        assert.deepStrictEqual(executed, [
+            'workbench.action.closeSidebar',
+            'workbench.action.closePanel',
+            'notifications.toggleDoNotDisturbMode'
+        ]);
+        
+        executed = [];
+        assert.strictEqual(await controller.exit(), true);
+        assert.strictEqual(controller.isActive(), false);
+        assert.deepStrictEqual(executed, [
+            'workbench.action.focusSideBar',
+            'workbench.action.focusPanel',
+            'workbench.action.focusActiveEditorGroup',
+            'notifications.toggleDoNotDisturbMode'
+        ]);
+    });
+
+    test('Should only undo the changes that were made', async () => {
+        unavailable = ['notifications.toggleDoNotDisturbMode'];
+        await controller.enter('zenMode', ['sideBar'], true);
+        await controller.enter('zenMode', ['sideBar'], true); // Already on
+        assert.deepStrictEqual(executed, ['workbench.action.toggleZenMode']);
+        
+        executed = [];
+        assert.strictEqual(await controller.exit(), false);
+        assert.strictEqual(await controller.exit(), false); // Already off
+        assert.deepStrictEqual(executed, ['workbench.action.exitZenMode']);
+    });
+
+    test('Leaving right after entering should undo the complete entry', async () => {
+        const entering = controller.enter('hidePanels', ['panel'], true);
+        const leaving = controller.exit();
+        await entering;
+        
+        assert.strictEqual(await leaving, true);
+        assert.deepStrictEqual(executed, [
+            'workbench.action.closePanel',
+            'notifications.toggleDoNotDisturbMode',
+            'workbench.action.focusPanel',
+            'workbench.action.focusActiveEditorGroup',
+            'notifications.toggleDoNotDisturbMode'
+        ]);
+    });
+
+    test('Should leave Zen Mode and notifications alone when they are already on', async () => {
+        state = { zenMode: true, notificationsSilenced: true };
+        await controller.enter('zenMode', [], true);
+        assert.strictEqual(controller.isActive(), true);
+        assert.deepStrictEqual(executed, []);
+        
+        assert.strictEqual(await controller.exit(), false);
+        assert.deepStrictEqual(executed, []);
+    });
+
+    test('Should only hide and show again the panels that were visible', async () => {
+        state = { ...state, visiblePanels: ['panel'] };
+        await controller.enter('hidePanels', ['sideBar', 'panel'], false);
+        assert.deepStrictEqual(executed, ['workbench.action.closePanel']);
+        
+        executed = [];
+        await controller.exit();
+        assert.deepStrictEqual(executed, ['workbench.action.focusPanel', 'workbench.action.focusActiveEditorGroup']);
+    });
+
+    test('Should change nothing when the workbench state cannot be read', async () => {
+        controller = new DoNotDisturbController();
+        await controller.enter('zenMode', [], true);
+        await controller.exit();
+        const hiding = new DoNotDisturbController();
+        await hiding.enter('hidePanels', ['sideBar', 'panel'], true);
+        await hiding.exit();
+        
+        assert.deepStrictEqual(executed, []);
+    });
+
+    test('Should do nothing when turned off', async () => {
+        await controller.enter('off', ['sideBar'], true);
+        
+        assert.strictEqual(controller.isActive(), false);
+        assert.deepStrictEqual(executed, []);
+    });
+});
\ No newline at end of file
@@ -16,7 +16,19 @@ suite('Extension Integration Test Suite', () => {
             'workSessionManager.startRest',
             'workSessionManager.pause',
             'workSessionManager.resume',
-            'workSessionManager.reset'
+            'workSessionManager.reset',
+            'workSessionManager.skip',
+            'workSessionManager.selectPreset',
+            'workSessionManager.showDashboard',
+            'workSessionManager.showProjectDashboard',
+            'workSessionManager.changeLabel',
+            'workSessionManager.logInterruption',
+            'workSessionManager.logInternalInterruption',
+            'workSessionManager.logExternalInterruption',
+            'workSessionManager.showMenu',
+            'workSessionManager.addTask',
+            'workSessionManager.showTasks',
+            'workSessionManager.completeTask'
         ];
 
         for (const expectedCommand of expectedCommands) {
@@ -59,7 +71,8 @@ suite('Extension Integration Test Suite', () => {
 
     test('Should execute start session command', async () => {
         try {
-            await vscode.commands.executeCommand('workSessionManager.startSession');
+            // A label skips asking what the session is for
+            await vscode.commands.executeCommand('workSessionManager.startSession', 'Integration test');
             // If we get here, the command executed without throwing
             assert.ok(true);
         } catch (error) {
@@ -103,6 +116,15 @@ suite('Extension Integration Test Suite', () => {
         }
     });
 
+    test('Should open the dashboard', async () => {
+        try {
+            await vscode.commands.executeCommand('workSessionManager.showDashboard');
+            assert.ok(true);
+        } catch (error) {
+            assert.fail(`Show dashboard command should not throw: ${error}`);
+        }
+    });
+
     test('Should handle configuration changes', async () => {
         const config = vscode.workspace.getConfiguration('workSessionManager');
         const originalValue = config.get('sessionDuration');
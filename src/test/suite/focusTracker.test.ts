@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { FocusTracker } from '../../focusTracker';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+suite('FocusTracker Tests', () => {
+    let clock: VirtualClock;
+    let globalState: MockMemento;
+    let trackers: FocusTracker[];
+
+    function createTracker(windowId: string): FocusTracker {
+        const tracker = new FocusTracker({ globalState } as any, windowId, clock);
+        trackers.push(tracker);
+        tracker.start();
+        return tracker;
+    }
+
+    setup(() => {
+        clock = new VirtualClock();
+        globalState = new MockMemento();
+        trackers = [];
+    });
+
+    teardown(() => {
+        trackers.forEach(tracker => tracker.dispose());
+    });
+
+    test('Should report leaving VS Code and coming back', async () => {
+        const tracker = createTracker('first');
+        const away: Date[] = [];
+        const back: Date[] = [];
+        tracker.on('away', (since: Date) => away.push(since));
+        tracker.on('back', (returnedAt: Date) => back.push(returnedAt));
+        
+        tracker.recordFocusChange(true);
+        await clock.advance(60 * 1000);
+        const leftAt = clock.now();
+        tracker.recordFocusChange(false);
+        await clock.advance(5 * 60 * 1000);
+        
+        assert.strictEqual(away.length, 1);
+        assert.strictEqual(away[0].getTime(), leftAt.getTime());
+        assert.strictEqual(tracker.getAwaySince()?.getTime(), leftAt.getTime());
+        
+        const returnedAt = clock.now();
+        tracker.recordFocusChange(true);
+        assert.strictEqual(back.length, 1);
+        assert.strictEqual(back[0].getTime(), returnedAt.getTime());
+        assert.strictEqual(tracker.isAway(), false);
+    });
+
+    test('Switching between VS Code windows should not count as leaving', async () => {
+        const first = createTracker('first');
+        const second = createTracker('second');
+        let awayCount = 0;
+        first.on('away', () => awayCount++);
+        second.on('away', () => awayCount++);
+        
+        first.recordFocusChange(true);
+        await clock.advance(60 * 1000);
+        
+        // The window losing focus may report after the other window has taken it
+        second.recordFocusChange(true);
+        first.recordFocusChange(false);
+        await clock.advance(60 * 1000);
+        
+        first.recordFocusChange(true);
+        await clock.advance(200);
+        second.recordFocusChange(false);
+        await clock.advance(60 * 1000);
+        
+        assert.strictEqual(awayCount, 0);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { GitTracker } from '../../gitTracker';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+interface MockCommit {
+    hash: string;
+    message: string;
+    parents: string[];
+    commitDate: Date;
+}
+
+// Repository as exposed by the built-in Git extension
+class MockRepository {
+    public rootUri = { fsPath: '/work/api', toString: () => 'file:///work/api' } as vscode.Uri;
+    public inputBox = { value: '' };
+    public state = {
+        HEAD: { name: 'main', commit: 'a1' } as { name?: string; commit?: string } | undefined,
+        onDidChange: (listener: () => void) => {
+            this.listeners.push(listener);
+            return { dispose: () => undefined };
+        }
+    };
+    private commits = new Map<string, MockCommit>();
+    private listeners: (() => void)[] = [];
+    
+    constructor() {
+        this.commits.set('a1', { hash: 'a1', message: 'Initial commit', parents: [], commitDate: new Date(0) });
+    }
+    
+    async getCommit(ref: string): Promise<MockCommit> {
+        const commit = this.commits.get(ref);
+        if (!commit) {
+            throw new Error(`bad revision '${ref}'`);
+        }
+        return commit;
+    }
+    
+    // Moves HEAD to a commit with the given parent, as committing, pulling or checking out does
+    async moveHead(hash: string, message: string, parent: string | undefined, commitDate: Date): Promise<void> {
+        this.commits.set(hash, { hash, message, parents: parent ? [parent] : [], commitDate });
+        this.state.HEAD = { name: 'main', commit: hash };
+        this.listeners.forEach(listener => listener());
+        await new Promise(resolve => setImmediate(resolve));
+    }
+}
+
+suite('GitTracker Tests', () => {
+    let clock: VirtualClock;
+    let globalState: MockMemento;
+    let repository: MockRepository;
+    let tracker: GitTracker;
+    let originalGetExtension: typeof vscode.extensions.getExtension;
+
+    setup(async () => {
+        clock = new VirtualClock();
+        globalState = new MockMemento();
+        repository = new MockRepository();
+        
+        // Stand in for the built-in Git extension
+        const api = {
+            repositories: [repository],
+            onDidOpenRepository: () => ({ dispose: () => undefined }),
+            getRepository: () => null
+        };
+        originalGetExtension = vscode.extensions.getExtension;
+        (vscode.extensions as any).getExtension = (id: string) => id === 'vscode.git' ?
+            { isActive: true, exports: { enabled: true, getAPI: () => api } } : originalGetExtension(id);
+        
+        tracker = new GitTracker({ globalState } as any, clock);
+        await tracker.start();
+    });
+
+    teardown(() => {
+        tracker.dispose();
+        (vscode.extensions as any).getExtension = originalGetExtension;
+    });
+
+    test('Should read the branch checked out', async () => {
+        assert.strictEqual(await tracker.getBranch(), 'main');
+        
+        repository.state.HEAD = { commit: 'a1' }; // Detached
+        assert.strictEqual(await tracker.getBranch(), undefined);
+    });
+
+    test('Should share the commits made, but not those checked out or pulled', async () => {
+        const sessionStart = clock.now();
+        await clock.advance(10 * 60 * 1000);
+        await repository.moveHead('b2', 'Fix login race\n\nRetry once the token is refreshed', 'a1', clock.now());
+        await repository.moveHead('c3', 'Older work', 'f0', new Date(clock.now().getTime() - 1000));
+        await repository.moveHead('d4', 'Pulled from a colleague', 'c3', new Date(clock.now().getTime() - 60 * 60 * 1000));
+        
+        // Any window can look the commits up
+        const otherWindow = new GitTracker({ globalState } as any, clock);
+        assert.deepStrictEqual(otherWindow.getCommits(sessionStart, clock.now()), [
+            { hash: 'b2', message: 'Fix login race', repository: 'api', committedAt: clock.now().getTime() }
+        ]);
+        assert.deepStrictEqual(otherWindow.getCommits(new Date(clock.now().getTime() + 1), clock.now()), []);
+    });
+
+    test('Should keep the Focus-Sessions trailer of the commit message up to date', async () => {
+        repository.inputBox.value = 'Fix login race';
+        await tracker.updateCommitTrailers(() => 2);
+        assert.strictEqual(repository.inputBox.value, 'Fix login race\n\nFocus-Sessions: 2');
+        
+        await tracker.updateCommitTrailers(since => since?.getTime() === 0 ? 3 : 0);
+        assert.strictEqual(repository.inputBox.value, 'Fix login race\n\nFocus-Sessions: 3');
+        
+        repository.inputBox.value = 'Fix login race\n\nSigned-off-by: Sam <sam@example.com>';
+        await tracker.updateCommitTrailers(() => 1);
+        assert.strictEqual(repository.inputBox.value,
+            'Fix login race\n\nSigned-off-by: Sam <sam@example.com>\nFocus-Sessions: 1');
+        
+        tracker.removeCommitTrailers();
+        assert.strictEqual(repository.inputBox.value, 'Fix login race\n\nSigned-off-by: Sam <sam@example.com>');
+    });
+
+    test('Should leave the rest of the commit message as typed', async () => {
+        repository.inputBox.value = 'Fix login ';
+        tracker.removeCommitTrailers();
+        assert.strictEqual(repository.inputBox.value, 'Fix login ');
+        
+        await tracker.updateCommitTrailers(() => 2);
+        assert.strictEqual(repository.inputBox.value, 'Fix login \n\nFocus-Sessions: 2');
+        
+        // Text typed after the trailer stays in place
+        repository.inputBox.value = 'Fix login race\n\nFocus-Sessions: 2\nSigned-off-by: Sam <sam@example.com>\n';
+        await tracker.updateCommitTrailers(() => 3);
+        assert.strictEqual(repository.inputBox.value,
+            'Fix login race\n\nFocus-Sessions: 3\nSigned-off-by: Sam <sam@example.com>\n');
+        
+        tracker.removeCommitTrailers();
+        assert.strictEqual(repository.inputBox.value, 'Fix login race\n\nSigned-off-by: Sam <sam@example.com>\n');
+    });
+});
\ No newline at end of file
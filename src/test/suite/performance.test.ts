@@ -5,6 +5,8 @@ import { StatusBarController } from '../../statusBarController';
 import { AudioManager } from '../../audioManager';
 import { ConfigurationManager } from '../../configurationManager';
 import { StateManager } from '../../stateManager';
+import { TimerState } from '../../types';
+import { VirtualClock, fastForwardPhases } from '../virtualClock';
 
 suite('Performance Tests', () => {
     let timerManager: TimerManager;
@@ -115,6 +117,32 @@ suite('Performance Tests', () => {
         });
     });
 
+    suite('Long-Running Simulation Tests', () => {
+        test('Should simulate a full working day on a virtual clock', async () => {
+            const clock = new VirtualClock();
+            const virtualTimer = new TimerManager(25, 5, 15, clock);
+            virtualTimer.on('timerComplete', (eventData) => {
+                if (eventData.state === TimerState.WORK_SESSION) {
+                    virtualTimer.startRest();
+                } else {
+                    virtualTimer.startSession();
+                }
+            });
+
+            const startTime = process.hrtime.bigint();
+            virtualTimer.startSession();
+            const completions = await fastForwardPhases(clock, virtualTimer, 32); // 8 hours of 25/5 cycles
+            const durationMs = Number(process.hrtime.bigint() - startTime) / 1000000;
+
+            assert.strictEqual(completions.length, 32);
+            assert.strictEqual(clock.getPendingCount(), 1); // Only the running phase's tick remains
+            assert.ok(durationMs < 5000, `Simulated day too slow: ${durationMs}ms`);
+
+            virtualTimer.dispose();
+            assert.strictEqual(clock.getPendingCount(), 0);
+        });
+    });
+
     suite('CPU Usage Tests', () => {
         test('Should not block event loop during timer operations', (done) => {
             let eventLoopBlocked = false;
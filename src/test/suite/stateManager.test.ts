@@ -1,7 +1,8 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { StateManager } from '../../stateManager';
-import { TimerState, TimerContext, PersistedState } from '../../types';
+import { TimerState, TimerContext, PersistedState, HistoryEntry, PhaseStatus, Interruption, InterruptionType } from '../../types';
+import { MockMemento } from '../mockMemento';
 
 // Mock VS Code extension context
 class MockExtensionContext implements vscode.ExtensionContext {
@@ -23,32 +24,6 @@ class MockExtensionContext implements vscode.ExtensionContext {
     secrets: vscode.SecretStorage = {} as any;
 }
 
-class MockMemento implements vscode.Memento {
-    private storage = new Map<string, any>();
-    
-    get<T>(key: string): T | undefined;
-    get<T>(key: string, defaultValue: T): T;
-    get<T>(key: string, defaultValue?: T): T | undefined {
-        return this.storage.has(key) ? this.storage.get(key) : defaultValue;
-    }
-    
-    async update(key: string, value: any): Promise<void> {
-        if (value === undefined) {
-            this.storage.delete(key);
-        } else {
-            this.storage.set(key, value);
-        }
-    }
-    
-    keys(): readonly string[] {
-        return Array.from(this.storage.keys());
-    }
-    
-    setKeysForSync(keys: readonly string[]): void {
-        // Mock implementation - no-op for testing
-    }
-}
-
 suite('StateManager Test Suite', () => {
     let stateManager: StateManager;
     let mockContext: MockExtensionContext;
@@ -116,6 +91,70 @@ suite('StateManager Test Suite', () => {
         assert.strictEqual(restoredState.restDuration, 5);
     });
 
+    test('Should save and restore active long break', async () => {
+        const timerContext: TimerContext = {
+            currentState: TimerState.LONG_BREAK,
+            remainingTime: 900, // 15 minutes
+            sessionDuration: 25,
+            restDuration: 5,
+            longBreakDuration: 15,
+            sessionStartTime: new Date()
+        };
+
+        await stateManager.saveState(timerContext);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.LONG_BREAK);
+        assert.ok(restoredState.remainingTime <= 900);
+        assert.ok(restoredState.remainingTime >= 895);
+        assert.strictEqual(restoredState.longBreakDuration, 15);
+    });
+
+    test('Should derive remaining time from the phase end timestamp', async () => {
+        // Saved 10 minutes ago with 25 minutes left, but the phase really ends in 5 minutes
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500,
+            sessionStartTime: new Date(Date.now() - 20 * 60 * 1000),
+            phaseEndTime: new Date(Date.now() + 5 * 60 * 1000),
+            lastActiveTime: new Date(Date.now() - 10 * 60 * 1000),
+            sessionCount: 0,
+            totalWorkTime: 0,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.WORK_SESSION);
+        assert.ok(restoredState.remainingTime <= 300);
+        assert.ok(restoredState.remainingTime >= 295);
+        assert.ok(restoredState.phaseEndTime);
+    });
+
+    test('Should save and restore the phase a paused timer came from', async () => {
+        const timerContext: TimerContext = {
+            currentState: TimerState.PAUSED,
+            pausedFrom: TimerState.REST_PERIOD,
+            remainingTime: 120,
+            sessionDuration: 25,
+            restDuration: 5,
+            pausedAt: new Date()
+        };
+
+        await stateManager.saveState(timerContext);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.PAUSED);
+        assert.strictEqual(restoredState.pausedFrom, TimerState.REST_PERIOD);
+        assert.strictEqual(restoredState.remainingTime, 120);
+    });
+
     test('Should handle expired work session', async () => {
         // Create a state that would have expired
         const expiredTime = new Date(Date.now() - 30 * 60 * 1000); // 30 minutes ago
@@ -166,6 +205,398 @@ suite('StateManager Test Suite', () => {
         assert.ok(restoredState.remainingTime <= 5 * 60);
     });
 
+    test('Should follow an expired work session with a long break or no break as configured', async () => {
+        const expiredTime = new Date(Date.now() - 27 * 60 * 1000); // 27 minutes ago
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500, // 25 minutes
+            sessionStartTime: expiredTime,
+            lastActiveTime: expiredTime,
+            sessionCount: 3,
+            totalWorkTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            longBreakDuration: 15
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+        const longBreak = await stateManager.restoreState({ autoStartRest: true, longBreakInterval: 4, overtimeEnabled: false });
+
+        assert.ok(longBreak);
+        assert.strictEqual(longBreak.currentState, TimerState.LONG_BREAK);
+        assert.strictEqual(longBreak.plannedDuration, 15 * 60);
+        assert.ok(longBreak.remainingTime > 12 * 60 && longBreak.remainingTime <= 13 * 60);
+        
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+        const idle = await stateManager.restoreState({ autoStartRest: false, longBreakInterval: 4, overtimeEnabled: false });
+
+        assert.ok(idle);
+        assert.strictEqual(idle.currentState, TimerState.IDLE);
+    });
+
+    test('Should restore an expired work session into overtime counted from its scheduled end', async () => {
+        const expiredTime = new Date(Date.now() - 27 * 60 * 1000); // 27 minutes ago
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500, // 25 minutes
+            sessionStartTime: expiredTime,
+            lastActiveTime: expiredTime,
+            sessionCount: 0,
+            totalWorkTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            label: 'Fix login race'
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+        const overtime = await stateManager.restoreState({ autoStartRest: true, longBreakInterval: 4, overtimeEnabled: true });
+
+        assert.ok(overtime);
+        assert.strictEqual(overtime.currentState, TimerState.OVERTIME);
+        assert.strictEqual(overtime.label, 'Fix login race');
+        assert.ok(overtime.elapsedTime !== undefined && overtime.elapsedTime >= 2 * 60 && overtime.elapsedTime < 2 * 60 + 5);
+        assert.ok(overtime.sessionStartTime);
+        assert.ok(Math.abs(overtime.sessionStartTime.getTime() - (expiredTime.getTime() + 25 * 60 * 1000)) < 5000);
+        assert.strictEqual(stateManager.getStatistics().sessionCount, 1);
+    });
+
+    test('Should credit a work session that expired while closed', async () => {
+        const expiredTime = new Date(Date.now() - 27 * 60 * 1000); // 27 minutes ago
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500,
+            sessionStartTime: expiredTime,
+            lastActiveTime: expiredTime,
+            sessionCount: 3,
+            totalWorkTime: 4500,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+
+        await stateManager.restoreState();
+        let stats = stateManager.getStatistics();
+        assert.strictEqual(stats.sessionCount, 4);
+        assert.strictEqual(stats.totalWorkTime, 4500 + 1500);
+
+        // Restoring again must not credit the same session twice
+        const restoredAgain = await stateManager.restoreState();
+        stats = stateManager.getStatistics();
+        assert.ok(restoredAgain);
+        assert.strictEqual(restoredAgain.currentState, TimerState.LONG_BREAK); // The fourth session earns a long break
+        assert.strictEqual(stats.sessionCount, 4);
+    });
+
+    test('Should record a phase that expired while closed in the history once', async () => {
+        const expiredTime = new Date(Date.now() - 27 * 60 * 1000); // 27 minutes ago
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500,
+            sessionStartTime: expiredTime,
+            lastActiveTime: expiredTime,
+            sessionCount: 0,
+            totalWorkTime: 0,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+
+        await stateManager.restoreState();
+        await stateManager.restoreState();
+        const history = stateManager.getHistory({ phase: TimerState.WORK_SESSION });
+
+        assert.strictEqual(history.length, 1);
+        assert.strictEqual(history[0].status, 'completed');
+        assert.strictEqual(history[0].startTime.getTime(), expiredTime.getTime());
+        assert.strictEqual(history[0].endTime.getTime(), expiredTime.getTime() + 1500 * 1000);
+        assert.strictEqual(history[0].actualDuration, 1500);
+    });
+
+    test('Should add and query session history', async () => {
+        const entry = (phase: TimerState, status: HistoryEntry['status'], start: Date): HistoryEntry => ({
+            phase,
+            status,
+            startTime: start,
+            endTime: new Date(start.getTime() + 25 * 60 * 1000),
+            plannedDuration: 1500,
+            actualDuration: status === 'completed' ? 1500 : 600,
+            pausedTime: 0,
+            workspaceName: 'client'
+        });
+        const today = new Date();
+        today.setHours(10, 0, 0, 0);
+        const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1, 10, 0);
+
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'completed', today));
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'reset', yesterday));
+        await stateManager.addHistoryEntry(entry(TimerState.REST_PERIOD, 'completed', new Date(today.getTime() + 30 * 60 * 1000)));
+
+        // Entries come back in chronological order with their dates revived
+        const all = stateManager.getHistory();
+        assert.strictEqual(all.length, 3);
+        assert.ok(all[0].startTime instanceof Date);
+        assert.strictEqual(all[0].startTime.getTime(), yesterday.getTime());
+
+        assert.strictEqual(stateManager.getHistoryForDay(today).length, 2);
+        assert.strictEqual(stateManager.getHistory({ status: 'reset' }).length, 1);
+        assert.strictEqual(stateManager.getHistory({ phase: TimerState.REST_PERIOD }).length, 1);
+        assert.strictEqual(stateManager.getHistory({ workspaceName: 'other' }).length, 0);
+
+        await stateManager.clearHistory();
+        assert.strictEqual(stateManager.getHistory().length, 0);
+    });
+
+    test('Should query the history per project', async () => {
+        const start = new Date();
+        const entry = (workspaceName: string | undefined, workspaceFolder?: string): HistoryEntry => ({
+            phase: TimerState.WORK_SESSION,
+            status: 'completed',
+            startTime: start,
+            endTime: new Date(start.getTime() + 25 * 60 * 1000),
+            plannedDuration: 1500,
+            actualDuration: 1500,
+            pausedTime: 0,
+            workspaceName,
+            workspaceFolder
+        });
+
+        await stateManager.addHistoryEntry(entry('client'));
+        await stateManager.addHistoryEntry(entry('monorepo', 'api'));
+        await stateManager.addHistoryEntry(entry('monorepo', 'web'));
+        await stateManager.addHistoryEntry(entry('client'));
+
+        assert.strictEqual(stateManager.getHistory({ project: 'client' }).length, 2);
+        assert.strictEqual(stateManager.getHistory({ project: 'api' }).length, 1);
+        assert.strictEqual(stateManager.getHistory({ workspaceName: 'monorepo' }).length, 2);
+        assert.deepStrictEqual(stateManager.getProjects(), ['client', 'web', 'api']);
+    });
+
+    test('Should keep the project of a restored phase', async () => {
+        const timerContext: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1200,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(),
+            phaseEndTime: new Date(Date.now() + 1200 * 1000),
+            workspace: { workspaceName: 'monorepo', workspaceFolder: 'api' }
+        };
+
+        await stateManager.saveState(timerContext);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.deepStrictEqual(restoredState.workspace, { workspaceName: 'monorepo', workspaceFolder: 'api' });
+    });
+
+    test('Should keep the label of a restored work session and offer recent labels', async () => {
+        const start = new Date();
+        const entry = (label?: string): HistoryEntry => ({
+            phase: TimerState.WORK_SESSION,
+            status: 'completed',
+            startTime: start,
+            endTime: new Date(start.getTime() + 25 * 60 * 1000),
+            plannedDuration: 1500,
+            actualDuration: 1500,
+            pausedTime: 0,
+            label
+        });
+
+        await stateManager.addHistoryEntry(entry('Code review'));
+        await stateManager.addHistoryEntry(entry('Fix login race'));
+        await stateManager.addHistoryEntry(entry());
+        await stateManager.addHistoryEntry(entry('Code review'));
+        assert.deepStrictEqual(stateManager.getLabels(), ['Code review', 'Fix login race']);
+
+        await stateManager.saveState({
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1200,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(),
+            phaseEndTime: new Date(Date.now() + 1200 * 1000),
+            label: 'Fix login race'
+        });
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.label, 'Fix login race');
+    });
+
+    test('Should count interruptions and voided work sessions', async () => {
+        const start = new Date();
+        const entry = (phase: TimerState, status: PhaseStatus, interruptions?: Interruption[]): HistoryEntry => ({
+            phase,
+            status,
+            startTime: start,
+            endTime: new Date(start.getTime() + 25 * 60 * 1000),
+            plannedDuration: 1500,
+            actualDuration: 1500,
+            pausedTime: 0,
+            interruptions
+        });
+        const interruption = (type: InterruptionType): Interruption => ({ type, loggedAt: start.getTime() });
+
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'completed'));
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'completed', [interruption('internal'), interruption('internal')]));
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'void', [interruption('internal'), interruption('external')]));
+        await stateManager.addHistoryEntry(entry(TimerState.REST_PERIOD, 'completed'));
+
+        assert.deepStrictEqual(stateManager.getInterruptionStatistics(), {
+            workSessions: 3,
+            interruptedSessions: 2,
+            voidedSessions: 1,
+            internal: 3,
+            external: 1
+        });
+        assert.strictEqual(stateManager.getInterruptionStatistics({ from: new Date(start.getTime() + 1) }).workSessions, 0);
+
+        // The interruptions of a running work session survive a restart
+        await stateManager.saveState({
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1200,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(),
+            phaseEndTime: new Date(Date.now() + 1200 * 1000),
+            interruptions: [{ type: 'external', note: 'Call from support', loggedAt: start.getTime() }]
+        });
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.deepStrictEqual(restoredState.interruptions, [{ type: 'external', note: 'Call from support', loggedAt: start.getTime() }]);
+    });
+
+    test('Should drop history entries past the retention period', async () => {
+        const old = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000);
+        const recent = new Date();
+        const entry = (start: Date): HistoryEntry => ({
+            phase: TimerState.WORK_SESSION,
+            status: 'completed',
+            startTime: start,
+            endTime: start,
+            plannedDuration: 1500,
+            actualDuration: 1500,
+            pausedTime: 0
+        });
+
+        await stateManager.addHistoryEntry(entry(old));
+        await stateManager.addHistoryEntry(entry(recent));
+
+        const history = stateManager.getHistory();
+        assert.strictEqual(history.length, 1);
+        assert.strictEqual(history[0].startTime.getTime(), recent.getTime());
+    });
+
+    test('Should skip malformed history entries', async () => {
+        await mockContext.globalState.update('workSessionManager.history', [
+            { phase: 'unknown', status: 'completed', startTime: new Date(), endTime: new Date() },
+            { phase: TimerState.WORK_SESSION, status: 'completed', startTime: 'invalid', endTime: new Date() },
+            null
+        ]);
+
+        assert.deepStrictEqual(stateManager.getHistory(), []);
+    });
+
+    test('Should restore overtime as-is and keep total overtime', async () => {
+        const overtimeStart = new Date(Date.now() - 10 * 60 * 1000);
+        const timerContext: TimerContext = {
+            currentState: TimerState.OVERTIME,
+            remainingTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: overtimeStart
+        };
+
+        await stateManager.saveState(timerContext, 2, 3000, 420);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.OVERTIME);
+        assert.strictEqual(restoredState.sessionStartTime?.getTime(), overtimeStart.getTime());
+        assert.strictEqual(stateManager.getStatistics().totalOvertime, 420);
+
+        // Updating the other statistics leaves overtime alone
+        await stateManager.updateStatistics(3, 4500);
+        assert.strictEqual(stateManager.getStatistics().totalOvertime, 420);
+    });
+
+    test('Should restore a flow session as-is without treating it as expired', async () => {
+        const flowStart = new Date(Date.now() - 2 * 60 * 60 * 1000); // Longer than any session duration
+        const timerContext: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: flowStart,
+            pausedTime: 600,
+            countUp: true
+        };
+
+        await stateManager.saveState(timerContext, 1, 1500);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.WORK_SESSION);
+        assert.strictEqual(restoredState.countUp, true);
+        assert.strictEqual(restoredState.sessionStartTime?.getTime(), flowStart.getTime());
+        assert.strictEqual(restoredState.pausedTime, 600);
+        assert.strictEqual(stateManager.getStatistics().sessionCount, 1);
+        assert.strictEqual(stateManager.getHistory().length, 0);
+    });
+
+    test('Should keep the time adjustment of a running phase', async () => {
+        const timerContext: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1200,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(),
+            phaseEndTime: new Date(Date.now() + 1200 * 1000),
+            plannedDuration: 1800,
+            adjustedTime: 300
+        };
+
+        await stateManager.saveState(timerContext);
+        const restoredState = await stateManager.restoreState();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.plannedDuration, 1800);
+        assert.strictEqual(restoredState.adjustedTime, 300);
+    });
+
+    test('Should credit an expired sequence step and wait at its position', async () => {
+        const expiredTime = new Date(Date.now() - 60 * 60 * 1000); // an hour ago
+        const persistedState: PersistedState = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 3000,
+            sessionStartTime: expiredTime,
+            lastActiveTime: expiredTime,
+            sessionCount: 0,
+            totalWorkTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            plannedDuration: 3000,
+            sequenceIndex: 1,
+            sequenceStep: { name: 'Focus', kind: 'work', duration: 50 }
+        };
+
+        await mockContext.globalState.update('workSessionManager.timerState', persistedState);
+        const restoredState = await stateManager.restoreState();
+        const history = stateManager.getHistory();
+
+        assert.ok(restoredState);
+        assert.strictEqual(restoredState.currentState, TimerState.IDLE);
+        assert.strictEqual(restoredState.sequenceIndex, 1);
+        assert.strictEqual(restoredState.sequenceStep, undefined);
+        assert.strictEqual(stateManager.getStatistics().totalWorkTime, 3000);
+        assert.strictEqual(history.length, 1);
+        assert.strictEqual(history[0].phaseName, 'Focus');
+        assert.strictEqual(history[0].actualDuration, 3000);
+    });
+
     test('Should return null for no saved state', async () => {
         const restoredState = await stateManager.restoreState();
         assert.strictEqual(restoredState, null);
@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import { StatisticsCalculator } from '../../statisticsCalculator';
+import { TimerState, HistoryEntry, PhaseStatus } from '../../types';
+import { VirtualClock } from '../virtualClock';
+
+suite('StatisticsCalculator Test Suite', () => {
+    // Wednesday 17 January 2024, 15:00 local time
+    const now = new Date(2024, 0, 17, 15, 0);
+    let calculator: StatisticsCalculator;
+
+    function workSession(start: Date, actualDuration: number = 1500, status: PhaseStatus = 'completed'): HistoryEntry {
+        return {
+            phase: TimerState.WORK_SESSION,
+            status,
+            startTime: start,
+            endTime: new Date(start.getTime() + actualDuration * 1000),
+            plannedDuration: 1500,
+            actualDuration,
+            pausedTime: 0
+        };
+    }
+
+    setup(() => {
+        calculator = new StatisticsCalculator(new VirtualClock(now));
+    });
+
+    test('Should return empty statistics without history', () => {
+        const statistics = calculator.calculate([]);
+
+        assert.strictEqual(statistics.todayFocusTime, 0);
+        assert.strictEqual(statistics.weekFocusTime, 0);
+        assert.strictEqual(statistics.completedSessions, 0);
+        assert.strictEqual(statistics.averageSessionLength, 0);
+        assert.strictEqual(statistics.currentStreak, 0);
+    });
+
+    test('Should sum focus time for today and this week', () => {
+        const statistics = calculator.calculate([
+            workSession(new Date(2024, 0, 17, 9, 0)),
+            workSession(new Date(2024, 0, 17, 10, 0), 600, 'reset'),
+            workSession(new Date(2024, 0, 15, 9, 0)), // Monday
+            workSession(new Date(2024, 0, 14, 9, 0)), // Sunday, previous week
+            {
+                ...workSession(new Date(2024, 0, 17, 11, 0)),
+                phase: TimerState.REST_PERIOD
+            }
+        ]);
+
+        assert.strictEqual(statistics.todayFocusTime, 1500 + 600);
+        assert.strictEqual(statistics.weekFocusTime, 1500 + 600 + 1500);
+    });
+
+    test('Should count completed and abandoned sessions', () => {
+        const statistics = calculator.calculate([
+            workSession(new Date(2024, 0, 17, 9, 0), 1500),
+            workSession(new Date(2024, 0, 17, 10, 0), 900, 'skipped'),
+            workSession(new Date(2024, 0, 17, 11, 0), 300, 'reset')
+        ]);
+
+        assert.strictEqual(statistics.completedSessions, 2);
+        assert.strictEqual(statistics.abandonedSessions, 1);
+        assert.strictEqual(statistics.averageSessionLength, (1500 + 900) / 2);
+    });
+
+    test('Should count the current streak of active days', () => {
+        const history = [
+            workSession(new Date(2024, 0, 13, 9, 0)),
+            workSession(new Date(2024, 0, 15, 9, 0)),
+            workSession(new Date(2024, 0, 16, 9, 0)),
+            workSession(new Date(2024, 0, 16, 23, 0), 300, 'reset')
+        ];
+
+        // Today is not over yet, so the streak still counts up to yesterday
+        assert.strictEqual(calculator.calculate(history).currentStreak, 2);
+
+        history.push(workSession(new Date(2024, 0, 17, 9, 0)));
+        assert.strictEqual(calculator.calculate(history).currentStreak, 3);
+    });
+
+    test('Should count the streak against the daily session goal', () => {
+        const history = [
+            workSession(new Date(2024, 0, 15, 9, 0)),
+            workSession(new Date(2024, 0, 15, 10, 0)),
+            workSession(new Date(2024, 0, 16, 9, 0)),
+            workSession(new Date(2024, 0, 16, 10, 0)),
+            workSession(new Date(2024, 0, 17, 9, 0))
+        ];
+
+        const statistics = calculator.calculate(history, 2);
+        assert.strictEqual(statistics.todaySessions, 1);
+        assert.strictEqual(statistics.currentStreak, 2); // Today's goal is not met yet
+
+        history.push(workSession(new Date(2024, 0, 17, 10, 0)));
+        assert.strictEqual(calculator.calculate(history, 2).currentStreak, 3);
+        assert.strictEqual(calculator.calculate(history, 3).currentStreak, 0);
+    });
+
+    test('Should build a year of daily focus aligned to weeks', () => {
+        const statistics = calculator.calculate([
+            workSession(new Date(2024, 0, 17, 9, 0)),
+            workSession(new Date(2024, 0, 17, 10, 0)),
+            workSession(new Date(2022, 0, 17, 9, 0)) // Outside the heatmap
+        ]);
+        const dailyFocus = statistics.dailyFocus;
+        const first = dailyFocus[0].date.split('-').map(Number);
+
+        assert.strictEqual(dailyFocus.length, 51 * 7 + 4); // 51 full weeks plus Sunday to Wednesday
+        assert.strictEqual(new Date(first[0], first[1] - 1, first[2]).getDay(), 0);
+        assert.deepStrictEqual(dailyFocus[dailyFocus.length - 1], { date: '2024-01-17', focusTime: 3000, sessions: 2 });
+    });
+
+    test('Should total focus time per project', () => {
+        const statistics = calculator.calculate([
+            { ...workSession(new Date(2024, 0, 17, 9, 0)), workspaceName: 'client' },
+            { ...workSession(new Date(2024, 0, 16, 9, 0), 600, 'reset'), workspaceName: 'client' },
+            { ...workSession(new Date(2024, 0, 10, 9, 0)), workspaceName: 'monorepo', workspaceFolder: 'api' },
+            { ...workSession(new Date(2024, 0, 15, 9, 0), 900), workspaceName: 'monorepo', workspaceFolder: 'web' },
+            workSession(new Date(2024, 0, 17, 10, 0))
+        ]);
+
+        assert.deepStrictEqual(statistics.projectTotals, [
+            { name: 'client', todayFocusTime: 1500, weekFocusTime: 2100, totalFocusTime: 2100, completedSessions: 1 },
+            { name: 'No workspace', todayFocusTime: 1500, weekFocusTime: 1500, totalFocusTime: 1500, completedSessions: 1 },
+            { name: 'web', todayFocusTime: 0, weekFocusTime: 900, totalFocusTime: 900, completedSessions: 1 },
+            { name: 'api', todayFocusTime: 0, weekFocusTime: 0, totalFocusTime: 1500, completedSessions: 1 }
+        ]);
+    });
+
+    test('Should total focus time per label', () => {
+        const statistics = calculator.calculate([
+            { ...workSession(new Date(2024, 0, 17, 9, 0)), label: 'Fix login race' },
+            { ...workSession(new Date(2024, 0, 16, 9, 0), 600, 'reset'), label: 'Fix login race' },
+            { ...workSession(new Date(2024, 0, 10, 9, 0)), label: 'Code review' },
+            workSession(new Date(2024, 0, 17, 10, 0))
+        ]);
+
+        assert.deepStrictEqual(statistics.labelTotals, [
+            { name: 'Fix login race', todayFocusTime: 1500, weekFocusTime: 2100, totalFocusTime: 2100, completedSessions: 1 },
+            { name: 'Code review', todayFocusTime: 0, weekFocusTime: 0, totalFocusTime: 1500, completedSessions: 1 }
+        ]);
+    });
+
+    test('Should total this week by phase name', () => {
+        const statistics = calculator.calculate([
+            { ...workSession(new Date(2024, 0, 17, 9, 0), 3000), phaseName: 'Focus' },
+            { ...workSession(new Date(2024, 0, 16, 9, 0), 3000), phaseName: 'Focus' },
+            { ...workSession(new Date(2024, 0, 16, 11, 0), 600), phaseName: 'Planning' },
+            { ...workSession(new Date(2024, 0, 16, 12, 0), 300), phase: TimerState.REST_PERIOD },
+            workSession(new Date(2024, 0, 15, 9, 0)),
+            { ...workSession(new Date(2024, 0, 14, 9, 0)), phaseName: 'Focus' } // Previous week
+        ]);
+
+        assert.deepStrictEqual(statistics.weekPhaseTotals, [
+            { name: 'Focus', phase: TimerState.WORK_SESSION, time: 6000, count: 2 },
+            { name: 'Work session', phase: TimerState.WORK_SESSION, time: 1500, count: 1 },
+            { name: 'Planning', phase: TimerState.WORK_SESSION, time: 600, count: 1 },
+            { name: 'Rest period', phase: TimerState.REST_PERIOD, time: 300, count: 1 }
+        ]);
+    });
+
+    test('Should count the break violations of this week', () => {
+        const restPeriod = (start: Date, breakViolations?: number): HistoryEntry =>
+            ({ ...workSession(start, 300), phase: TimerState.REST_PERIOD, breakViolations });
+        const statistics = calculator.calculate([
+            restPeriod(new Date(2024, 0, 17, 9, 30), 2),
+            restPeriod(new Date(2024, 0, 16, 9, 30)),
+            { ...restPeriod(new Date(2024, 0, 15, 11, 30), 1), phase: TimerState.LONG_BREAK },
+            restPeriod(new Date(2024, 0, 14, 9, 30), 4) // Previous week
+        ]);
+
+        assert.strictEqual(statistics.weekBreakViolations, 3);
+    });
+});
\ No newline at end of file
@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { StatusBarController } from '../../statusBarController';
-import { TimerState, TimerContext, ThemeColors, VisibilityOptions } from '../../types';
+import { TimerState, TimerContext, ThemeColors, VisibilityOptions, Task } from '../../types';
 
 // Mock VS Code StatusBarItem
 class MockStatusBarItem implements vscode.StatusBarItem {
@@ -90,6 +90,24 @@ suite('StatusBarController Test Suite', () => {
         assert.strictEqual(mockStatusBarItem.color, '#F44336'); // Default rest color
     });
 
+    test('Should display long break state correctly', () => {
+        const context: TimerContext = {
+            currentState: TimerState.LONG_BREAK,
+            remainingTime: 900, // 15 minutes
+            sessionDuration: 25,
+            restDuration: 5,
+            longBreakDuration: 15
+        };
+
+        statusBarController.updateDisplay(context);
+
+        assert.ok(mockStatusBarItem.text.includes('🟣')); // Purple dot
+        assert.ok(mockStatusBarItem.text.includes('15:00')); // Countdown
+        assert.ok(mockStatusBarItem.text.includes('⏸️')); // Pause button
+        assert.strictEqual(mockStatusBarItem.command, 'workSessionManager.pause');
+        assert.strictEqual(mockStatusBarItem.color, '#9575CD'); // Default long break color
+    });
+
     test('Should display paused state correctly', () => {
         const context: TimerContext = {
             currentState: TimerState.PAUSED,
@@ -108,6 +126,84 @@ suite('StatusBarController Test Suite', () => {
         assert.strictEqual(mockStatusBarItem.color, '#FFA500'); // Orange for paused
     });
 
+    test('Should describe the paused phase in the tooltip', () => {
+        const context: TimerContext = {
+            currentState: TimerState.PAUSED,
+            pausedFrom: TimerState.REST_PERIOD,
+            remainingTime: 180,
+            sessionDuration: 25,
+            restDuration: 5,
+            pausedAt: new Date()
+        };
+
+        statusBarController.updateDisplay(context);
+
+        assert.ok(String(mockStatusBarItem.tooltip).startsWith('Rest paused'));
+        assert.ok(String(mockStatusBarItem.tooltip).includes('03:00'));
+    });
+
+    test('Should show daily goal progress next to the countdown', () => {
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1122,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        statusBarController.setGoalProgress({
+            todaySessions: 3,
+            dailySessionGoal: 8,
+            weekFocusTime: 5 * 3600 + 20 * 60,
+            weeklyFocusGoal: 20,
+            streak: 4
+        });
+        statusBarController.updateDisplay(context);
+
+        assert.strictEqual(mockStatusBarItem.text, '🟢 18:42 · 3/8 ⏸️');
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Today: 3/8 sessions · This week: 5h 20m of 20h · Streak: 4 days'));
+
+        statusBarController.setGoalProgress(null);
+        assert.strictEqual(mockStatusBarItem.text, '🟢 18:42 ⏸️');
+    });
+
+    test('Should display overtime as a count-up', () => {
+        const context: TimerContext = {
+            currentState: TimerState.OVERTIME,
+            remainingTime: 0,
+            elapsedTime: 192,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        statusBarController.updateDisplay(context);
+
+        assert.ok(mockStatusBarItem.text.includes('🟠'));
+        assert.ok(mockStatusBarItem.text.includes('+03:12'));
+        assert.strictEqual(mockStatusBarItem.command, 'workSessionManager.takeBreak');
+        assert.ok(mockStatusBarItem.backgroundColor instanceof vscode.ThemeColor);
+    });
+
+    test('Should display a flow session as elapsed time', () => {
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 0,
+            elapsedTime: 2530,
+            countUp: true,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+
+        statusBarController.updateDisplay(context);
+
+        assert.strictEqual(mockStatusBarItem.text, '🟢 42:10 ☕');
+        assert.strictEqual(mockStatusBarItem.command, 'workSessionManager.takeBreak');
+        assert.ok(String(mockStatusBarItem.tooltip).includes('42:10 focused'));
+
+        statusBarController.updateDisplay({ ...context, currentState: TimerState.PAUSED, pausedFrom: TimerState.WORK_SESSION });
+        assert.strictEqual(mockStatusBarItem.text, '🟡 42:10 ▶️');
+        assert.ok(String(mockStatusBarItem.tooltip).startsWith('Flow session paused'));
+    });
+
     test('Should apply theme colors correctly', () => {
         const newColors: ThemeColors = {
             workSessionColor: '#00FF00',
@@ -268,6 +364,126 @@ suite('StatusBarController Test Suite', () => {
         assert.deepStrictEqual(currentColors, colors);
     });
 
+    test('Should display a custom sequence step with its own icon, name and color', () => {
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 600,
+            sessionDuration: 25,
+            restDuration: 5,
+            sequenceStep: { name: 'Planning', kind: 'work', duration: 10, icon: '📝', color: '#FFB74D' }
+        };
+
+        statusBarController.updateDisplay(context);
+
+        assert.ok(mockStatusBarItem.text.includes('📝'));
+        assert.ok(!mockStatusBarItem.text.includes('🟢'));
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Planning'));
+        assert.strictEqual(mockStatusBarItem.color, '#FFB74D');
+
+        statusBarController.updateDisplay({
+            ...context,
+            currentState: TimerState.PAUSED,
+            pausedFrom: TimerState.WORK_SESSION
+        });
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Planning paused'));
+    });
+
+    test('Should show the active preset in the tooltip', () => {
+        statusBarController.setPresetName('52/17');
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Preset: 52/17'));
+
+        statusBarController.setPresetName('');
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('Preset'));
+    });
+
+    test('Should explain a session paused while the user was away', () => {
+        statusBarController.updateDisplay({
+            currentState: TimerState.PAUSED,
+            remainingTime: 900,
+            sessionDuration: 25,
+            restDuration: 5,
+            pausedFrom: TimerState.WORK_SESSION,
+            pausedAt: new Date(),
+            idlePaused: true
+        });
+
+        assert.ok(String(mockStatusBarItem.tooltip).includes('paused while you were away'));
+        assert.strictEqual(mockStatusBarItem.command, 'workSessionManager.resume');
+    });
+
+    test('Should show how often the user left VS Code during the work session', () => {
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 900,
+            sessionDuration: 25,
+            restDuration: 5,
+            focusLosses: 3,
+            timeAway: 252
+        };
+
+        statusBarController.updateDisplay(context);
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Left VS Code 3 times · 04:12 away'));
+
+        statusBarController.updateDisplay({ ...context, focusLosses: undefined, timeAway: undefined });
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('Left VS Code'));
+    });
+
+    test('Should show the label of the work session', () => {
+        const context: TimerContext = {
+            currentState: TimerState.PAUSED,
+            remainingTime: 900,
+            sessionDuration: 25,
+            restDuration: 5,
+            pausedFrom: TimerState.WORK_SESSION,
+            pausedAt: new Date(),
+            label: 'Fix login race'
+        };
+
+        statusBarController.updateDisplay(context);
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Working on: Fix login race'));
+
+        // The label is kept for the next work session, but not shown during the break
+        statusBarController.updateDisplay({ ...context, currentState: TimerState.REST_PERIOD, pausedFrom: undefined });
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('Working on'));
+    });
+
+    test('Should show the interruptions of the work session', () => {
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 900,
+            sessionDuration: 25,
+            restDuration: 5,
+            interruptions: [
+                { type: 'internal', loggedAt: 0 },
+                { type: 'external', note: 'Call from support', loggedAt: 0 },
+                { type: 'internal', loggedAt: 0 }
+            ]
+        };
+
+        statusBarController.updateDisplay(context);
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Interruptions: 3 (2 internal, 1 external)'));
+
+        statusBarController.updateDisplay({ ...context, interruptions: undefined });
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('Interruptions'));
+    });
+
+    test('Should show the active task against its estimate', () => {
+        const task: Task = { id: 'a1', title: 'Write parser', estimate: 3, actual: 2, createdAt: 0 };
+
+        statusBarController.setActiveTask(task);
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Task: Write parser · 2/3 sessions'));
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('over estimate'));
+
+        statusBarController.setActiveTask({ ...task, actual: 4 });
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Task: Write parser · 4/3 sessions ⚠️ over estimate'));
+
+        statusBarController.setActiveTask({ ...task, estimate: 0, actual: 1 });
+        assert.ok(String(mockStatusBarItem.tooltip).includes('Task: Write parser · 1 session'));
+
+        statusBarController.setActiveTask(undefined);
+        assert.ok(!String(mockStatusBarItem.tooltip).includes('Task:'));
+    });
+
     test('Should handle idle state after context update', () => {
         // First set a work session
         const workContext: TimerContext = {
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { TaskStore } from '../../taskStore';
+import { StateManager } from '../../stateManager';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+suite('TaskStore Tests', () => {
+    let clock: VirtualClock;
+    let globalState: MockMemento;
+    let store: TaskStore;
+
+    function createStore(): TaskStore {
+        return new TaskStore(new StateManager({ globalState } as any, clock), clock);
+    }
+
+    setup(() => {
+        clock = new VirtualClock();
+        globalState = new MockMemento();
+        store = createStore();
+    });
+
+    teardown(() => {
+        store.dispose();
+    });
+
+    test('Should add, edit and reorder tasks', async () => {
+        let changes = 0;
+        store.on('change', () => changes++);
+        
+        const parser = await store.addTask('  Write parser ', 3);
+        const review = await store.addTask('Code review', 1);
+        const docs = await store.addTask('Update docs', 0);
+        assert.strictEqual(changes, 3);
+        assert.deepStrictEqual(store.getTasks().map(task => task.title), ['Write parser', 'Code review', 'Update docs']);
+        assert.strictEqual(store.getActiveTask()?.id, parser.id);
+        
+        await store.editTask(review.id, { title: 'Review the API', estimate: 2 });
+        await store.editTask(docs.id, { title: ' ' });
+        assert.deepStrictEqual(store.getTasks().map(task => [task.title, task.estimate]),
+            [['Write parser', 3], ['Review the API', 2], ['Update docs', 0]]);
+        
+        // Done tasks keep their place; open tasks move past them
+        await store.completeTask(review.id);
+        assert.strictEqual(await store.moveTask(docs.id, -1), true);
+        assert.deepStrictEqual(store.getTasks().map(task => task.title), ['Update docs', 'Review the API', 'Write parser']);
+        assert.strictEqual(await store.moveTask(docs.id, -1), false);
+        assert.strictEqual(await store.moveTask(review.id, 1), false);
+    });
+
+    test('Should credit completed work sessions to the active task', async () => {
+        const parser = await store.addTask('Write parser', 2);
+        const review = await store.addTask('Code review', 1);
+        
+        await store.creditSession();
+        assert.strictEqual(store.getEstimateStatus(store.getActiveTask()!), 'under');
+        await store.creditSession();
+        assert.strictEqual(store.getEstimateStatus(store.getActiveTask()!), 'met');
+        const credited = await store.creditSession();
+        assert.strictEqual(credited?.actual, 3);
+        assert.strictEqual(store.getEstimateStatus(credited!), 'over');
+        
+        assert.strictEqual(await store.setActiveTask(review.id), true);
+        await store.creditSession();
+        assert.deepStrictEqual(store.getTasks().map(task => task.actual), [3, 1]);
+        
+        // Completing the active task leaves no task to credit
+        const completed = await store.completeTask(review.id);
+        assert.strictEqual(completed?.completedAt, clock.now().getTime());
+        assert.strictEqual(store.getActiveTask(), undefined);
+        assert.strictEqual(await store.creditSession(), undefined);
+        assert.strictEqual(await store.setActiveTask(review.id), false);
+        assert.strictEqual(await store.completeTask(review.id), undefined);
+        
+        // Every window sees the same list
+        const otherWindow = createStore();
+        assert.deepStrictEqual(otherWindow.getTasks(), store.getTasks());
+        await otherWindow.setActiveTask(parser.id);
+        assert.strictEqual(store.getActiveTask()?.title, 'Write parser');
+    });
+
+    test('Should drop tasks done on earlier days and malformed tasks', async () => {
+        const parser = await store.addTask('Write parser', 2);
+        const review = await store.addTask('Code review', 1);
+        await store.completeTask(review.id);
+        assert.strictEqual(store.getTasks().length, 2);
+        
+        await clock.advance(24 * 60 * 60 * 1000);
+        assert.deepStrictEqual(store.getTasks().map(task => task.title), ['Write parser']);
+        
+        await globalState.update('workSessionManager.tasks', {
+            tasks: [...store.getTasks(), { id: 'broken', title: 'No estimate', actual: 0, createdAt: 0 }],
+            activeTaskId: parser.id
+        });
+        assert.deepStrictEqual(store.getTasks().map(task => task.id), [parser.id]);
+        assert.strictEqual(store.getActiveTask()?.id, parser.id);
+    });
+
+    test('Should parse estimates typed by the user', () => {
+        assert.strictEqual(store.parseEstimate(' 4 '), 4);
+        assert.strictEqual(store.parseEstimate(''), 0);
+        assert.strictEqual(store.parseEstimate('2.5'), null);
+        assert.strictEqual(store.parseEstimate('-1'), null);
+        assert.strictEqual(store.parseEstimate('21'), null);
+        assert.strictEqual(store.parseEstimate('three'), null);
+    });
+});
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import { TimerManager } from '../../timerManager';
-import { TimerState, TimerEventData } from '../../types';
+import { TimerState, TimerEventData, HistoryEntry } from '../../types';
+import { VirtualClock, fastForwardPhases } from '../virtualClock';
 
 suite('TimerManager Test Suite', () => {
     let timerManager: TimerManager;
@@ -43,6 +44,30 @@ suite('TimerManager Test Suite', () => {
         assert.strictEqual(timerManager.isPaused(), false);
     });
 
+    test('Starting long break should set correct state', () => {
+        const longBreakTimer = new TimerManager(25, 5, 15);
+        longBreakTimer.startLongBreak();
+        const state = longBreakTimer.getCurrentState();
+        
+        assert.strictEqual(state.currentState, TimerState.LONG_BREAK);
+        assert.strictEqual(state.remainingTime, 15 * 60); // 15 minutes in seconds
+        assert.ok(state.sessionStartTime);
+        assert.strictEqual(longBreakTimer.isRunning(), true);
+        
+        longBreakTimer.pause();
+        assert.strictEqual(longBreakTimer.getCurrentState().currentState, TimerState.PAUSED);
+        longBreakTimer.dispose();
+    });
+
+    test('Update durations should adjust a running long break', () => {
+        timerManager.startLongBreak();
+        timerManager.updateDurations(25, 5, 20);
+        const state = timerManager.getCurrentState();
+        
+        assert.strictEqual(state.longBreakDuration, 20);
+        assert.strictEqual(state.remainingTime, 20 * 60);
+    });
+
     test('Pausing work session should set PAUSED state', () => {
         timerManager.startSession();
         timerManager.pause();
@@ -70,6 +95,67 @@ suite('TimerManager Test Suite', () => {
         assert.strictEqual(timerManager.isPaused(), false);
     });
 
+    test('Resuming paused rest period should resume the rest period', () => {
+        timerManager.startRest();
+        timerManager.pause();
+        assert.strictEqual(timerManager.getCurrentState().pausedFrom, TimerState.REST_PERIOD);
+        
+        timerManager.resume();
+        const resumedState = timerManager.getCurrentState();
+        
+        assert.strictEqual(resumedState.currentState, TimerState.REST_PERIOD);
+        assert.strictEqual(resumedState.remainingTime, 5 * 60);
+        assert.strictEqual(resumedState.pausedFrom, undefined);
+    });
+
+    test('Update durations while paused should adjust the paused phase', () => {
+        timerManager.startRest();
+        timerManager.pause();
+        timerManager.updateDurations(30, 10);
+        
+        const state = timerManager.getCurrentState();
+        assert.strictEqual(state.currentState, TimerState.PAUSED);
+        assert.strictEqual(state.remainingTime, 10 * 60); // Rest adjusted, not the work session
+    });
+
+    test('Starting a phase should set an absolute end timestamp', () => {
+        const before = Date.now();
+        timerManager.startSession();
+        const state = timerManager.getCurrentState();
+        
+        assert.ok(state.phaseEndTime);
+        assert.ok(state.phaseEndTime.getTime() >= before + 25 * 60 * 1000);
+        assert.ok(state.phaseEndTime.getTime() <= Date.now() + 25 * 60 * 1000);
+    });
+
+    test('Pause and resume should shift the end timestamp', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        virtualTimer.startSession();
+        const originalEnd = virtualTimer.getCurrentState().phaseEndTime!.getTime();
+        
+        virtualTimer.pause();
+        assert.strictEqual(virtualTimer.getCurrentState().phaseEndTime, undefined);
+        
+        await clock.advance(10 * 60 * 1000); // 10 minutes paused
+        virtualTimer.resume();
+        const resumedState = virtualTimer.getCurrentState();
+        assert.ok(resumedState.phaseEndTime);
+        assert.strictEqual(resumedState.phaseEndTime.getTime(), originalEnd + 10 * 60 * 1000);
+        assert.strictEqual(resumedState.remainingTime, 25 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Update durations should recompute the end timestamp', () => {
+        timerManager.startSession();
+        timerManager.updateDurations(30, 5);
+        const state = timerManager.getCurrentState();
+        
+        assert.strictEqual(state.remainingTime, 30 * 60);
+        assert.ok(state.phaseEndTime);
+        assert.ok(state.phaseEndTime.getTime() > Date.now() + 29 * 60 * 1000);
+    });
+
     test('Reset should return to IDLE state', () => {
         timerManager.startSession();
         timerManager.reset();
@@ -147,6 +233,672 @@ suite('TimerManager Test Suite', () => {
         shortTimer.startSession();
     });
 
+    test('Full 25 minute session should complete on a virtual clock', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const startTime = clock.now().getTime();
+        
+        virtualTimer.startSession();
+        await clock.advance(24 * 60 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 60);
+        
+        const completions = await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(completions[0].state, TimerState.WORK_SESSION);
+        assert.strictEqual(clock.now().getTime() - startTime, 25 * 60 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        virtualTimer.dispose();
+    });
+
+    test('Countdown should catch up after the clock jumps', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.startSession();
+        clock.jump(10 * 60 * 1000); // e.g. laptop suspended for 10 minutes
+        await clock.advance(1000);
+        
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 15 * 60 - 1);
+        virtualTimer.dispose();
+    });
+
+    test('Restore should resume a persisted running phase', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.restore({
+            currentState: TimerState.REST_PERIOD,
+            remainingTime: 120,
+            sessionDuration: 50,
+            restDuration: 10,
+            phaseEndTime: new Date(clock.now().getTime() + 120 * 1000)
+        });
+        
+        let state = virtualTimer.getCurrentState();
+        assert.strictEqual(state.currentState, TimerState.REST_PERIOD);
+        assert.strictEqual(state.remainingTime, 120);
+        assert.strictEqual(state.sessionDuration, 25); // Configured durations are kept
+        
+        await clock.advance(60 * 1000);
+        state = virtualTimer.getCurrentState();
+        assert.strictEqual(state.remainingTime, 60);
+        virtualTimer.dispose();
+    });
+
+    test('Restore should keep a persisted paused phase paused', () => {
+        timerManager.restore({
+            currentState: TimerState.PAUSED,
+            pausedFrom: TimerState.WORK_SESSION,
+            remainingTime: 750,
+            sessionDuration: 25,
+            restDuration: 5,
+            pausedAt: new Date()
+        });
+        
+        assert.strictEqual(timerManager.isPaused(), true);
+        timerManager.resume();
+        assert.strictEqual(timerManager.getCurrentState().currentState, TimerState.WORK_SESSION);
+        assert.strictEqual(timerManager.getCurrentState().remainingTime, 750);
+    });
+
+    test('Completed phase should emit a history entry with pause time', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        const startTime = clock.now().getTime();
+        
+        virtualTimer.startSession();
+        await clock.advance(10 * 60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(3 * 60 * 1000);
+        virtualTimer.resume();
+        await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(entries.length, 1);
+        assert.strictEqual(entries[0].phase, TimerState.WORK_SESSION);
+        assert.strictEqual(entries[0].status, 'completed');
+        assert.strictEqual(entries[0].startTime.getTime(), startTime);
+        assert.strictEqual(entries[0].endTime.getTime(), startTime + 28 * 60 * 1000);
+        assert.strictEqual(entries[0].plannedDuration, 25 * 60);
+        assert.strictEqual(entries[0].actualDuration, 25 * 60);
+        assert.strictEqual(entries[0].pausedTime, 3 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Resetting or replacing a phase should record it as reset, and taking a break skip the work session', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        await clock.advance(2 * 60 * 1000);
+        virtualTimer.startSession();
+        await clock.advance(5 * 60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(60 * 1000);
+        virtualTimer.startRest();
+        await clock.advance(60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(30 * 1000);
+        virtualTimer.reset();
+        virtualTimer.reset(); // Nothing left to record
+        
+        assert.deepStrictEqual(entries.map(entry => [entry.phase, entry.status, entry.actualDuration, entry.pausedTime]), [
+            [TimerState.WORK_SESSION, 'reset', 2 * 60, 0],
+            [TimerState.WORK_SESSION, 'skipped', 5 * 60, 60],
+            [TimerState.REST_PERIOD, 'reset', 60, 30]
+        ]);
+        virtualTimer.dispose();
+    });
+
+    test('History entry should reflect durations changed mid-phase', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        await clock.advance(5 * 60 * 1000);
+        virtualTimer.updateDurations(45, 5);
+        await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(entries[0].plannedDuration, 45 * 60);
+        assert.strictEqual(entries[0].actualDuration, 45 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Overtime should count up after a work session until a break starts', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.setOvertimeEnabled(true);
+        
+        virtualTimer.startSession();
+        const completions = await fastForwardPhases(clock, virtualTimer, 1);
+        assert.strictEqual(completions[0].state, TimerState.WORK_SESSION);
+        assert.strictEqual(virtualTimer.isOvertime(), true);
+        
+        await clock.advance(192 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 192);
+        
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, undefined);
+        assert.deepStrictEqual(entries.map(entry => [entry.phase, entry.status, entry.actualDuration]), [
+            [TimerState.WORK_SESSION, 'completed', 25 * 60],
+            [TimerState.OVERTIME, 'completed', 192]
+        ]);
+        virtualTimer.dispose();
+    });
+
+    test('Overtime should keep counting after a restore', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.restore({
+            currentState: TimerState.OVERTIME,
+            remainingTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(clock.now().getTime() - 60 * 1000)
+        });
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 60);
+        
+        await clock.advance(30 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 90);
+        virtualTimer.dispose();
+    });
+
+    test('Flow session should count up excluding pauses until stopped', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        const completions: TimerEventData[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => completions.push(eventData));
+        
+        virtualTimer.startFlowSession();
+        assert.strictEqual(virtualTimer.isFlowSession(), true);
+        await clock.advance(40 * 60 * 1000); // Well past the session duration
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.WORK_SESSION);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 40 * 60);
+        
+        virtualTimer.pause();
+        await clock.advance(5 * 60 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 40 * 60);
+        virtualTimer.resume();
+        await clock.advance(10 * 60 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 50 * 60);
+        
+        assert.strictEqual(virtualTimer.stopFlowSession(), 50 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        assert.strictEqual(virtualTimer.isFlowSession(), false);
+        assert.strictEqual(virtualTimer.stopFlowSession(), 0);
+        assert.strictEqual(completions.length, 1);
+        assert.strictEqual(completions[0].state, TimerState.WORK_SESSION);
+        assert.strictEqual(completions[0].duration, 50 * 60);
+        assert.strictEqual(completions[0].countUp, true);
+        assert.deepStrictEqual(entries.map(entry => [entry.phase, entry.status, entry.plannedDuration, entry.actualDuration, entry.pausedTime]), [
+            [TimerState.WORK_SESSION, 'completed', 50 * 60, 50 * 60, 5 * 60]
+        ]);
+        virtualTimer.dispose();
+    });
+
+    test('Stopping a paused flow session should exclude the ongoing pause', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const completions: TimerEventData[] = [];
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => completions.push(eventData));
+        virtualTimer.setOvertimeEnabled(true); // Flow sessions never run into overtime
+        
+        virtualTimer.startFlowSession();
+        await clock.advance(20 * 60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(10 * 60 * 1000);
+        virtualTimer.stopFlowSession();
+        
+        assert.strictEqual(completions[0].duration, 20 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        virtualTimer.dispose();
+    });
+
+    test('Flow session should keep counting after a restore', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.restore({
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 0,
+            sessionDuration: 25,
+            restDuration: 5,
+            sessionStartTime: new Date(clock.now().getTime() - 90 * 60 * 1000),
+            pausedTime: 30 * 60,
+            countUp: true
+        });
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 60 * 60);
+        
+        await clock.advance(30 * 1000);
+        assert.strictEqual(virtualTimer.getCurrentState().elapsedTime, 60 * 60 + 30);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.WORK_SESSION);
+        virtualTimer.dispose();
+    });
+
+    test('Adjusting time should move the end of a running or paused phase', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        await clock.advance(10 * 60 * 1000);
+        assert.strictEqual(virtualTimer.adjustRemainingTime(5 * 60), true);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 20 * 60);
+        
+        virtualTimer.pause();
+        assert.strictEqual(virtualTimer.adjustRemainingTime(-2 * 60), true);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 18 * 60);
+        virtualTimer.resume();
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        assert.strictEqual(entries[0].plannedDuration, 28 * 60);
+        assert.strictEqual(entries[0].actualDuration, 28 * 60);
+        assert.strictEqual(entries[0].adjustedTime, 3 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Setting the remaining time should be kept when durations change', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.startRest();
+        await clock.advance(60 * 1000);
+        assert.strictEqual(virtualTimer.setRemainingTime(10 * 60), true);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 10 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().adjustedTime, 6 * 60);
+        
+        // Changing the rest duration keeps the manual adjustment on top of it
+        virtualTimer.updateDurations(25, 10);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 15 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Updating durations can leave the running phase to finish as planned', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        
+        virtualTimer.startSession();
+        await clock.advance(10 * 60 * 1000);
+        virtualTimer.updateDurations(52, 17, 15, false);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 15 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().sessionDuration, 52);
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 17 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Subtracting all remaining time should complete the phase', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const completions: TimerEventData[] = [];
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => completions.push(eventData));
+        
+        virtualTimer.startSession();
+        await clock.advance(5 * 60 * 1000);
+        virtualTimer.adjustRemainingTime(-30 * 60);
+        
+        assert.strictEqual(completions.length, 1);
+        assert.strictEqual(completions[0].duration, 5 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        virtualTimer.dispose();
+    });
+
+    test('Time cannot be adjusted without a countdown', () => {
+        assert.strictEqual(timerManager.adjustRemainingTime(60), false);
+        timerManager.startFlowSession();
+        assert.strictEqual(timerManager.canAdjustTime(), false);
+        assert.strictEqual(timerManager.setRemainingTime(60), false);
+    });
+
+    test('Parse time should accept clock times, minutes and units', () => {
+        assert.strictEqual(timerManager.parseTime('12:30'), 750);
+        assert.strictEqual(timerManager.parseTime('1:05:00'), 3900);
+        assert.strictEqual(timerManager.parseTime('15'), 900);
+        assert.strictEqual(timerManager.parseTime(' 15m '), 900);
+        assert.strictEqual(timerManager.parseTime('90s'), 90);
+        assert.strictEqual(timerManager.parseTime('1h30m'), 5400);
+        assert.strictEqual(timerManager.parseTime('12:75'), null);
+        assert.strictEqual(timerManager.parseTime('soon'), null);
+        assert.strictEqual(timerManager.parseTime(''), null);
+    });
+
+    test('Skipping should complete the phase early and credit the time spent', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        const completions: TimerEventData[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => completions.push(eventData));
+        virtualTimer.setOvertimeEnabled(true); // A skipped session goes straight to idle
+        
+        virtualTimer.startSession();
+        await clock.advance(12 * 60 * 1000);
+        assert.strictEqual(virtualTimer.skip(), true);
+        
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        assert.strictEqual(completions[0].state, TimerState.WORK_SESSION);
+        assert.strictEqual(completions[0].duration, 12 * 60);
+        assert.strictEqual(completions[0].skipped, true);
+        assert.deepStrictEqual(entries.map(entry => [entry.phase, entry.status, entry.plannedDuration, entry.actualDuration]), [
+            [TimerState.WORK_SESSION, 'skipped', 25 * 60, 12 * 60]
+        ]);
+        virtualTimer.dispose();
+    });
+
+    test('Skipping a paused phase should exclude the ongoing pause', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        const startTime = clock.now().getTime();
+        
+        virtualTimer.startRest();
+        await clock.advance(2 * 60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(60 * 1000);
+        virtualTimer.skip();
+        
+        assert.strictEqual(entries[0].phase, TimerState.REST_PERIOD);
+        assert.strictEqual(entries[0].status, 'skipped');
+        assert.strictEqual(entries[0].actualDuration, 2 * 60);
+        assert.strictEqual(entries[0].pausedTime, 60);
+        assert.strictEqual(entries[0].endTime.getTime(), startTime + 3 * 60 * 1000);
+        assert.strictEqual(virtualTimer.isPaused(), false);
+        assert.strictEqual(clock.getPendingCount(), 0);
+        virtualTimer.dispose();
+    });
+
+    test('Skipping should stop a flow session and do nothing when idle', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const completions: TimerEventData[] = [];
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => completions.push(eventData));
+        
+        assert.strictEqual(virtualTimer.skip(), false);
+        virtualTimer.startFlowSession();
+        await clock.advance(30 * 60 * 1000);
+        assert.strictEqual(virtualTimer.skip(), true);
+        
+        assert.strictEqual(completions.length, 1);
+        assert.strictEqual(completions[0].countUp, true);
+        assert.strictEqual(completions[0].duration, 30 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Custom phase sequence should advance step by step and wrap around', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.setSequence([
+            { name: 'Focus', kind: 'work', duration: 50 },
+            { name: 'Break', kind: 'rest', duration: 10 },
+            { name: 'Deep Work', kind: 'work', duration: 90 },
+            { name: 'Long Break', kind: 'longBreak', duration: 30 }
+        ]);
+        
+        assert.strictEqual(virtualTimer.hasSequence(), true);
+        assert.strictEqual(virtualTimer.getNextStep()?.name, 'Focus');
+        virtualTimer.startSession();
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 50 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep?.name, 'Focus');
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        assert.strictEqual(virtualTimer.getNextStep()?.name, 'Break');
+        assert.strictEqual(virtualTimer.startNextPhase(), true);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 10 * 60);
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        virtualTimer.startNextPhase();
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep?.name, 'Deep Work');
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        virtualTimer.startNextPhase();
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.LONG_BREAK);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 30 * 60);
+        
+        await fastForwardPhases(clock, virtualTimer, 1);
+        assert.strictEqual(virtualTimer.getNextStep()?.name, 'Focus');
+        assert.deepStrictEqual(entries.map(entry => entry.phaseName), ['Focus', 'Break', 'Deep Work', 'Long Break']);
+        assert.strictEqual(entries[2].actualDuration, 90 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Starting a session or break should pick the next step of that kind', () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        virtualTimer.setSequence([
+            { name: 'Planning', kind: 'work', duration: 10 },
+            { name: 'Focus', kind: 'work', duration: 50 },
+            { name: 'Break', kind: 'rest', duration: 10 }
+        ]);
+        
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep?.name, 'Break');
+        virtualTimer.startSession();
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep?.name, 'Planning');
+        virtualTimer.startLongBreak();
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep?.name, 'Break');
+        
+        // An explicit rest length, as for flowtime, is not a sequence step
+        virtualTimer.startRest(120);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 120);
+        assert.strictEqual(virtualTimer.getCurrentState().sequenceStep, undefined);
+        virtualTimer.dispose();
+    });
+
+    test('Changing the sequence should start over and leave duration updates to steps', () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const sequence = [
+            { name: 'Focus', kind: 'work' as const, duration: 50 },
+            { name: 'Break', kind: 'rest' as const, duration: 10 }
+        ];
+        virtualTimer.setSequence(sequence);
+        virtualTimer.startSession();
+        
+        virtualTimer.updateDurations(30, 5);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 50 * 60);
+        
+        virtualTimer.setSequence([...sequence]);
+        assert.strictEqual(virtualTimer.getNextStep()?.name, 'Break');
+        virtualTimer.setSequence([{ name: 'Review', kind: 'work', duration: 15 }, ...sequence]);
+        assert.strictEqual(virtualTimer.getNextStep()?.name, 'Review');
+        
+        virtualTimer.setSequence([]);
+        assert.strictEqual(virtualTimer.hasSequence(), false);
+        assert.strictEqual(virtualTimer.startNextPhase(), false);
+        virtualTimer.startSession();
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 30 * 60);
+        virtualTimer.dispose();
+    });
+
+    test('Phases should be credited to the project they were started in', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.on('timerComplete', () => virtualTimer.startRest());
+        
+        virtualTimer.setWorkspace({ workspaceName: 'monorepo', workspaceFolder: 'api', branch: 'fix/login-race' });
+        virtualTimer.startSession();
+        await fastForwardPhases(clock, virtualTimer, 1);
+        virtualTimer.setWorkspace({ workspaceName: 'client' });
+        virtualTimer.reset();
+        
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(entries[0].workspaceFolder, 'api');
+        assert.strictEqual(entries[0].branch, 'fix/login-race');
+        assert.strictEqual(entries[1].phase, TimerState.REST_PERIOD);
+        assert.strictEqual(entries[1].workspaceName, 'client');
+        assert.strictEqual(entries[1].workspaceFolder, undefined);
+        assert.strictEqual(entries[1].branch, undefined);
+        virtualTimer.dispose();
+    });
+
+    test('Work sessions should keep their label until it is changed', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        virtualTimer.on('timerComplete', (eventData: TimerEventData) => {
+            if (eventData.state === TimerState.WORK_SESSION) {
+                virtualTimer.startRest();
+            }
+        });
+        
+        virtualTimer.setLabel('Fix login race');
+        virtualTimer.startSession();
+        await fastForwardPhases(clock, virtualTimer, 2);
+        virtualTimer.startSession();
+        virtualTimer.setLabel('');
+        virtualTimer.reset();
+        
+        assert.strictEqual(entries.length, 3);
+        assert.strictEqual(entries[0].label, 'Fix login race');
+        assert.strictEqual(entries[1].phase, TimerState.REST_PERIOD);
+        assert.strictEqual(entries[1].label, undefined);
+        assert.strictEqual(entries[2].label, undefined);
+        assert.strictEqual(virtualTimer.getCurrentState().label, undefined);
+        virtualTimer.dispose();
+    });
+
+    test('Interruptions should be logged with the work session, and voiding it should reset the timer', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        assert.strictEqual(virtualTimer.recordInterruption('internal'), false);
+        
+        virtualTimer.startSession();
+        await clock.advance(5 * 60 * 1000);
+        const loggedAt = clock.now().getTime();
+        assert.strictEqual(virtualTimer.recordInterruption('internal', 'Checked the news'), true);
+        virtualTimer.pause();
+        assert.strictEqual(virtualTimer.recordInterruption('external', ''), true);
+        assert.deepStrictEqual(virtualTimer.getCurrentState().interruptions, [
+            { type: 'internal', note: 'Checked the news', loggedAt },
+            { type: 'external', note: undefined, loggedAt }
+        ]);
+        
+        assert.strictEqual(virtualTimer.voidSession(), true);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.IDLE);
+        assert.strictEqual(virtualTimer.getCurrentState().interruptions, undefined);
+        assert.strictEqual(entries.length, 1);
+        assert.strictEqual(entries[0].status, 'void');
+        assert.strictEqual(entries[0].interruptions?.length, 2);
+        
+        // Breaks cannot be interrupted or voided
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.recordInterruption('external'), false);
+        assert.strictEqual(virtualTimer.voidSession(), false);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+        virtualTimer.dispose();
+    });
+
+    test('Pausing while idle should exclude the time since the last activity', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        await clock.advance(10 * 60 * 1000);
+        const lastActivity = clock.now();
+        await clock.advance(5 * 60 * 1000);
+        
+        assert.strictEqual(virtualTimer.pauseWhileIdle(lastActivity), true);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.PAUSED);
+        assert.strictEqual(virtualTimer.getCurrentState().idlePaused, true);
+        assert.strictEqual(virtualTimer.getCurrentState().remainingTime, 15 * 60);
+        
+        await clock.advance(2 * 60 * 1000);
+        virtualTimer.resume();
+        assert.strictEqual(virtualTimer.getCurrentState().idlePaused, undefined);
+        await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(entries[0].actualDuration, 25 * 60);
+        assert.strictEqual(entries[0].pausedTime, 7 * 60);
+        
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.pauseWhileIdle(clock.now()), false);
+        assert.strictEqual(virtualTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+        virtualTimer.dispose();
+    });
+
+    test('Leaving VS Code should be counted against the work session only', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        await clock.advance(5 * 60 * 1000);
+        virtualTimer.recordFocusLoss(clock.now());
+        await clock.advance(2 * 60 * 1000);
+        virtualTimer.recordFocusReturn(clock.now());
+        assert.strictEqual(virtualTimer.getCurrentState().focusLosses, 1);
+        assert.strictEqual(virtualTimer.getCurrentState().timeAway, 2 * 60);
+        
+        // An absence ends at a pause, as paused time is not focus time anyway
+        virtualTimer.recordFocusLoss(clock.now());
+        await clock.advance(60 * 1000);
+        virtualTimer.pause();
+        await clock.advance(60 * 1000);
+        virtualTimer.recordFocusLoss(clock.now());
+        virtualTimer.resume();
+        await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(entries[0].focusLosses, 2);
+        assert.strictEqual(entries[0].timeAway, 3 * 60);
+        assert.strictEqual(virtualTimer.getCurrentState().focusLosses, undefined);
+        
+        virtualTimer.startRest();
+        virtualTimer.recordFocusLoss(clock.now());
+        virtualTimer.reset();
+        assert.strictEqual(entries[1].focusLosses, undefined);
+        virtualTimer.dispose();
+    });
+
+    test('Working on during a break should be counted against the break', async () => {
+        const clock = new VirtualClock();
+        const virtualTimer = new TimerManager(25, 5, 15, clock);
+        const entries: HistoryEntry[] = [];
+        virtualTimer.on('phaseEnd', (entry: HistoryEntry) => entries.push(entry));
+        
+        virtualTimer.startSession();
+        assert.strictEqual(virtualTimer.recordBreakViolation(), false);
+        
+        virtualTimer.startRest();
+        assert.strictEqual(virtualTimer.recordBreakViolation(), true);
+        assert.strictEqual(virtualTimer.recordBreakViolation(), true);
+        assert.strictEqual(virtualTimer.getCurrentState().breakViolations, 2);
+        await fastForwardPhases(clock, virtualTimer, 1);
+        
+        assert.strictEqual(entries[0].breakViolations, undefined);
+        assert.strictEqual(entries[1].phase, TimerState.REST_PERIOD);
+        assert.strictEqual(entries[1].breakViolations, 2);
+        assert.strictEqual(virtualTimer.getCurrentState().breakViolations, undefined);
+        virtualTimer.dispose();
+    });
+
     test('Cannot pause when timer is idle', () => {
         const initialState = timerManager.getCurrentState();
         timerManager.pause();
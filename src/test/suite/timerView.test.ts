@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TimerView } from '../../timerView';
+import { StateManager } from '../../stateManager';
+import { TaskStore } from '../../taskStore';
+import { TimerState, TimerContext, HistoryEntry } from '../../types';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+suite('TimerView Tests', () => {
+    let clock: VirtualClock;
+    let stateManager: StateManager;
+    let taskStore: TaskStore;
+    let treeView: { visible: boolean };
+    let view: TimerView;
+    let originalCreateTreeView: typeof vscode.window.createTreeView;
+
+    setup(() => {
+        clock = new VirtualClock();
+        stateManager = new StateManager({ globalState: new MockMemento() } as any, clock);
+        taskStore = new TaskStore(stateManager, clock);
+        
+        // Stand in for the tree view VS Code shows
+        treeView = { visible: true };
+        originalCreateTreeView = vscode.window.createTreeView;
+        (vscode.window as any).createTreeView = () => ({
+            ...treeView,
+            get visible() {
+                return treeView.visible;
+            },
+            onDidChangeVisibility: () => ({ dispose: () => undefined }),
+            dispose: () => undefined
+        });
+        
+        view = new TimerView(stateManager, taskStore);
+    });
+
+    teardown(() => {
+        view.dispose();
+        taskStore.dispose();
+        (vscode.window as any).createTreeView = originalCreateTreeView;
+    });
+
+    test('Timer ticks should only re-render the phase node', () => {
+        const changed: unknown[] = [];
+        view.onDidChangeTreeData(node => changed.push(node));
+        const [phaseNode] = view.getChildren();
+        const context: TimerContext = {
+            currentState: TimerState.WORK_SESSION,
+            remainingTime: 1500,
+            sessionDuration: 25,
+            restDuration: 5
+        };
+        
+        view.update(context);
+        view.update({ ...context, remainingTime: 1499 });
+        assert.deepStrictEqual(changed, [phaseNode, phaseNode]);
+        
+        const item = view.getTreeItem(phaseNode);
+        assert.strictEqual(item.label, 'Work Session');
+        assert.strictEqual(item.description, '24:59 remaining');
+        assert.strictEqual(item.contextValue, 'phase.running');
+        
+        view.update({ ...context, currentState: TimerState.PAUSED, pausedFrom: TimerState.WORK_SESSION });
+        assert.strictEqual(view.getTreeItem(phaseNode).label, 'Work Session (paused)');
+        assert.strictEqual(view.getTreeItem(phaseNode).contextValue, 'phase.paused');
+        
+        // Nothing is rendered while the view is hidden
+        treeView.visible = false;
+        view.update(context);
+        assert.strictEqual(changed.length, 3);
+    });
+
+    test('Should list the work sessions completed today and the open tasks', async () => {
+        const [, todayNode, tasksNode] = view.getChildren();
+        assert.deepStrictEqual(view.getChildren(todayNode).map(node => view.getTreeItem(node).label), ['No completed work sessions yet']);
+        
+        const start = clock.now();
+        const entry = (phase: TimerState, status: HistoryEntry['status'], label?: string): HistoryEntry => ({
+            phase,
+            status,
+            startTime: start,
+            endTime: new Date(start.getTime() + 25 * 60 * 1000),
+            plannedDuration: 1500,
+            actualDuration: 1500,
+            pausedTime: 0,
+            label
+        });
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'completed', 'Fix login race'));
+        await stateManager.addHistoryEntry(entry(TimerState.WORK_SESSION, 'reset'));
+        await stateManager.addHistoryEntry(entry(TimerState.REST_PERIOD, 'completed'));
+        
+        const sessions = view.getChildren(todayNode).map(node => view.getTreeItem(node));
+        assert.strictEqual(sessions.length, 1);
+        assert.strictEqual(sessions[0].description, 'Fix login race');
+        assert.strictEqual(view.getTreeItem(todayNode).description, '1 session · 25m');
+        
+        await taskStore.addTask('Write parser', 2);
+        const done = await taskStore.addTask('Code review', 1);
+        await taskStore.completeTask(done.id);
+        
+        const tasks = view.getChildren(tasksNode).map(node => view.getTreeItem(node));
+        assert.deepStrictEqual(tasks.map(item => [item.label, item.description]), [['Write parser', '0/2 sessions']]);
+        assert.strictEqual(view.getTreeItem(tasksNode).description, '1 open');
+    });
+});
\ No newline at end of file
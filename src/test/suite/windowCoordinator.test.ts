@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import { WindowCoordinator } from '../../windowCoordinator';
+import { TimerCommand, WorkspaceAttribution } from '../../types';
+import { VirtualClock } from '../virtualClock';
+import { MockMemento } from '../mockMemento';
+
+suite('WindowCoordinator Tests', () => {
+    let clock: VirtualClock;
+    let globalState: MockMemento;
+    let coordinators: WindowCoordinator[];
+
+    function createWindow(): WindowCoordinator {
+        const coordinator = new WindowCoordinator({ globalState } as any, clock);
+        coordinators.push(coordinator);
+        return coordinator;
+    }
+
+    setup(() => {
+        clock = new VirtualClock();
+        globalState = new MockMemento();
+        coordinators = [];
+    });
+
+    teardown(async () => {
+        for (const coordinator of coordinators) {
+            await coordinator.dispose();
+        }
+    });
+
+    test('should elect the first window as leader', async () => {
+        const first = createWindow();
+        const second = createWindow();
+        
+        await first.start();
+        await second.start();
+        
+        assert.strictEqual(first.isLeader(), true);
+        assert.strictEqual(second.isLeader(), false);
+        
+        // Leadership is stable while the leader keeps its heartbeat
+        await clock.advance(30000);
+        assert.strictEqual(first.isLeader(), true);
+        assert.strictEqual(second.isLeader(), false);
+    });
+
+    test('should forward follower commands to the leader once', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const received: TimerCommand[] = [];
+        leader.on('command', (command: TimerCommand) => received.push(command));
+        
+        await follower.sendCommand('startSession');
+        await follower.sendCommand('pause');
+        await clock.advance(5000);
+        
+        assert.deepStrictEqual(received, ['startSession', 'pause']);
+    });
+
+    test('should not run commands again when another window takes over', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        const other = createWindow();
+        await leader.start();
+        await follower.start();
+        await other.start();
+        
+        const received: [string, TimerCommand][] = [];
+        leader.on('command', (command: TimerCommand) => received.push(['leader', command]));
+        follower.on('command', (command: TimerCommand) => received.push(['follower', command]));
+        other.on('command', (command: TimerCommand) => received.push(['other', command]));
+        
+        await other.sendCommand('addTime', 300);
+        await follower.sendCommand('skip');
+        await clock.advance(1000);
+        await leader.dispose();
+        await other.sendCommand('pause');
+        await clock.advance(2000);
+        
+        assert.deepStrictEqual(received, [['leader', 'addTime'], ['leader', 'skip'], ['follower', 'pause']]);
+    });
+
+    test('should remove the commands left behind by closed windows when taking over', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        // A window that crashed after forwarding a command
+        await globalState.update('workSessionManager.commands.crashed', [
+            { id: 'crashed-1', windowId: 'crashed', type: 'pause', issuedAt: clock.now().getTime() }
+        ]);
+        await clock.advance(15000);
+        await leader.dispose();
+        await clock.advance(1000);
+        
+        assert.strictEqual(follower.isLeader(), true);
+        assert.strictEqual(globalState.get('workSessionManager.commands.crashed'), undefined);
+    });
+
+    test('should forward command arguments to the leader', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const received: [TimerCommand, number | undefined][] = [];
+        leader.on('command', (command: TimerCommand, argument?: number) => received.push([command, argument]));
+        
+        await follower.sendCommand('addTime', 300);
+        await follower.sendCommand('resume');
+        await clock.advance(2000);
+        
+        assert.deepStrictEqual(received, [['addTime', 300], ['resume', undefined]]);
+    });
+
+    test('should forward the project a command was issued in', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const received: (WorkspaceAttribution | undefined)[] = [];
+        leader.on('command', (_command: TimerCommand, _argument?: number, workspace?: WorkspaceAttribution) => received.push(workspace));
+        
+        await follower.sendCommand('startSession', undefined, { workspaceName: 'monorepo', workspaceFolder: 'api' });
+        await clock.advance(2000);
+        
+        assert.deepStrictEqual(received, [{ workspaceName: 'monorepo', workspaceFolder: 'api' }]);
+    });
+
+    test('should forward the text of a command, such as a session label or an interruption note', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const received: (string | undefined)[] = [];
+        leader.on('command', (_command: TimerCommand, _argument?: number, _workspace?: WorkspaceAttribution, text?: string) =>
+            received.push(text));
+        
+        await follower.sendCommand('startSession', undefined, undefined, 'Fix login race');
+        await follower.sendCommand('setLabel', undefined, undefined, '');
+        await follower.sendCommand('externalInterruption', undefined, undefined, 'Call from support');
+        await clock.advance(2000);
+        
+        assert.deepStrictEqual(received, ['Fix login race', '', 'Call from support']);
+    });
+
+    test('should notify followers of leader broadcasts', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const notifications: string[] = [];
+        let syncCount = 0;
+        follower.on('notification', (type: string) => notifications.push(type));
+        follower.on('sync', () => syncCount++);
+        
+        await leader.broadcast('sessionComplete');
+        await clock.advance(3000);
+        
+        assert.deepStrictEqual(notifications, ['sessionComplete']);
+        assert.ok(syncCount > 0, 'Follower should sync with the shared timer');
+    });
+
+    test('should ignore broadcasts from followers', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const notifications: string[] = [];
+        follower.on('notification', (type: string) => notifications.push(type));
+        
+        await follower.broadcast('sessionComplete');
+        await clock.advance(3000);
+        
+        assert.deepStrictEqual(notifications, []);
+    });
+
+    test('should hand leadership over when the leader closes', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        const changes: boolean[] = [];
+        follower.on('leadershipChange', (isLeader: boolean) => changes.push(isLeader));
+        
+        await leader.dispose();
+        await clock.advance(1000);
+        
+        assert.strictEqual(follower.isLeader(), true);
+        assert.deepStrictEqual(changes, [true]);
+    });
+
+    test('should take over when the leader stops sending heartbeats', async () => {
+        const leader = createWindow();
+        const follower = createWindow();
+        await leader.start();
+        await follower.start();
+        
+        // Simulate a crashed window: the lease is left behind but never renewed
+        clock.clearInterval((leader as any).intervalId);
+        (leader as any).intervalId = null;
+        
+        await clock.advance(4000);
+        assert.strictEqual(follower.isLeader(), false, 'Lease should still be live');
+        
+        await clock.advance(2000);
+        assert.strictEqual(follower.isLeader(), true, 'Expired lease should be taken over');
+    });
+});
\ No newline at end of file
@@ -5,7 +5,9 @@ import { StatusBarController } from '../../statusBarController';
 import { AudioManager } from '../../audioManager';
 import { ConfigurationManager } from '../../configurationManager';
 import { StateManager } from '../../stateManager';
+import { WorkSessionManagerExtension } from '../../extension';
 import { TimerState } from '../../types';
+import { VirtualClock, fastForwardPhases } from '../virtualClock';
 
 suite('End-to-End Workflow Tests', () => {
     let timerManager: TimerManager;
@@ -365,6 +367,86 @@ suite('End-to-End Workflow Tests', () => {
         });
     });
 
+    suite('Virtual Clock Cycles', () => {
+        let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+        let originalRegisterCommand: typeof vscode.commands.registerCommand;
+        const settings: { [key: string]: any } = {
+            sessionDuration: 25,
+            restDuration: 5,
+            longBreakDuration: 15,
+            longBreakInterval: 4,
+            soundEnabled: false,
+            autoStartRest: true,
+            autoStartWork: true
+        };
+
+        setup(() => {
+            // Drive the extension from test settings; the real instance already owns the commands
+            originalGetConfiguration = vscode.workspace.getConfiguration;
+            originalRegisterCommand = vscode.commands.registerCommand;
+            vscode.workspace.getConfiguration = (() => ({ get: (key: string) => settings[key] })) as any;
+            vscode.commands.registerCommand = (() => ({ dispose: () => {} })) as any;
+        });
+
+        teardown(() => {
+            vscode.workspace.getConfiguration = originalGetConfiguration;
+            vscode.commands.registerCommand = originalRegisterCommand;
+        });
+
+        test('Should auto-start through full work, rest and work cycles', async () => {
+            const clock = new VirtualClock();
+            const extension = new WorkSessionManagerExtension(mockContext, clock);
+            const extensionTimer = extension.getTimerManager();
+            const startTime = clock.now().getTime();
+
+            extensionTimer.startSession();
+            const completions = await fastForwardPhases(clock, extensionTimer, 3);
+
+            assert.deepStrictEqual(
+                completions.map(eventData => eventData.state),
+                [TimerState.WORK_SESSION, TimerState.REST_PERIOD, TimerState.WORK_SESSION]
+            );
+            // 25 + 5 + 25 minutes plus the two 2-second auto-start delays
+            assert.strictEqual(clock.now().getTime() - startTime, (55 * 60 + 4) * 1000);
+
+            extension.dispose();
+        });
+
+        test('Should take a long break after every fourth session', async () => {
+            const clock = new VirtualClock();
+            const extension = new WorkSessionManagerExtension(mockContext, clock);
+            const extensionTimer = extension.getTimerManager();
+
+            extensionTimer.startSession();
+            const completions = await fastForwardPhases(clock, extensionTimer, 8);
+            const breaks = completions.filter((_, index) => index % 2 === 1).map(eventData => eventData.state);
+
+            assert.deepStrictEqual(breaks, [
+                TimerState.REST_PERIOD,
+                TimerState.REST_PERIOD,
+                TimerState.REST_PERIOD,
+                TimerState.LONG_BREAK
+            ]);
+
+            extension.dispose();
+        });
+
+        test('Should auto-start the rest after skipping a work session', async () => {
+            const clock = new VirtualClock();
+            const extension = new WorkSessionManagerExtension(mockContext, clock);
+            const extensionTimer = extension.getTimerManager();
+
+            extensionTimer.startSession();
+            await clock.advance(10 * 60 * 1000);
+            extensionTimer.skip();
+            await clock.advance(2000);
+
+            assert.strictEqual(extensionTimer.getCurrentState().currentState, TimerState.REST_PERIOD);
+
+            extension.dispose();
+        });
+    });
+
     suite('Integration with VS Code', () => {
         test('Should handle VS Code lifecycle events', () => {
             // Simulate extension activation
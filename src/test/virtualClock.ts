@@ -0,0 +1,139 @@
+import { Clock, TimerHandle, TimerEventData } from '../types';
+import { TimerManager } from '../timerManager';
+
+interface ScheduledCallback {
+    id: number;
+    callback: () => void;
+    dueTime: number;
+    interval?: number;
+}
+
+/**
+ * Deterministic clock for tests
+ * Time only moves when advance() is called, firing due callbacks in order
+ */
+export class VirtualClock implements Clock {
+    private currentTime: number;
+    private scheduled: ScheduledCallback[] = [];
+    private nextId = 1;
+
+    constructor(startTime: Date = new Date('2024-01-01T09:00:00Z')) {
+        this.currentTime = startTime.getTime();
+    }
+
+    public now(): Date {
+        return new Date(this.currentTime);
+    }
+
+    public setInterval(callback: () => void, ms: number): TimerHandle {
+        return this.schedule(callback, ms, ms);
+    }
+
+    public clearInterval(handle: TimerHandle): void {
+        this.cancel(handle);
+    }
+
+    public setTimeout(callback: () => void, ms: number): TimerHandle {
+        return this.schedule(callback, ms);
+    }
+
+    public clearTimeout(handle: TimerHandle): void {
+        this.cancel(handle);
+    }
+
+    /**
+     * Moves time forward, firing every callback that falls due on the way
+     * Pending promise callbacks are flushed after each firing so async
+     * listeners (e.g. completion handlers) can schedule follow-up work
+     */
+    public async advance(ms: number): Promise<void> {
+        const targetTime = this.currentTime + ms;
+
+        let next = this.nextDue(targetTime);
+        while (next) {
+            // Overdue callbacks (after jump()) fire once, as real timers do
+            this.currentTime = Math.max(this.currentTime, next.dueTime);
+            if (next.interval !== undefined) {
+                next.dueTime = this.currentTime + next.interval;
+            } else {
+                this.cancel(next.id);
+            }
+            next.callback();
+            await flushPromises();
+            next = this.nextDue(targetTime);
+        }
+
+        this.currentTime = targetTime;
+        await flushPromises();
+    }
+
+    /**
+     * Jumps the wall clock without firing callbacks, as after a system sleep
+     */
+    public jump(ms: number): void {
+        this.currentTime += ms;
+    }
+
+    /**
+     * Gets the number of callbacks still scheduled
+     */
+    public getPendingCount(): number {
+        return this.scheduled.length;
+    }
+
+    private schedule(callback: () => void, ms: number, interval?: number): number {
+        const id = this.nextId++;
+        this.scheduled.push({ id, callback, dueTime: this.currentTime + ms, interval });
+        return id;
+    }
+
+    private cancel(handle: TimerHandle): void {
+        this.scheduled = this.scheduled.filter(entry => entry.id !== handle);
+    }
+
+    private nextDue(limit: number): ScheduledCallback | undefined {
+        return this.scheduled
+            .filter(entry => entry.dueTime <= limit)
+            .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id)[0];
+    }
+}
+
+/**
+ * Lets already-resolved promise callbacks run
+ */
+export function flushPromises(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Fast-forwards the clock until the timer has completed the given number of
+ * phases (work sessions, rest periods, long breaks), one second at a time
+ * Whatever starts the next phase - a test listener or the extension's
+ * auto-start logic - runs on the same virtual clock
+ * Returns the completion events in order
+ */
+export async function fastForwardPhases(
+    clock: VirtualClock,
+    timerManager: TimerManager,
+    phases: number,
+    maxMs: number = 24 * 60 * 60 * 1000
+): Promise<TimerEventData[]> {
+    const completions: TimerEventData[] = [];
+    const listener = (eventData: TimerEventData) => completions.push(eventData);
+    timerManager.on('timerComplete', listener);
+
+    try {
+        let elapsed = 0;
+        while (completions.length < phases) {
+            if (elapsed >= maxMs) {
+                throw new Error(`Only ${completions.length} of ${phases} phases completed within ${maxMs}ms`);
+            }
+            await clock.advance(1000);
+            elapsed += 1000;
+        }
+    } finally {
+        timerManager.removeListener('timerComplete', listener);
+    }
+
+    return completions;
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Formats lengths of time the same way wherever they are shown: the status bar, the dashboard and the timer view
+ */
+export class TimeFormatter {
+    /**
+     * Formats seconds as mm:ss, e.g. "24:59"
+     */
+    public static formatTime(seconds: number): string {
+        const minutes = Math.floor(seconds / 60);
+        const remainingSeconds = seconds % 60;
+        return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Formats seconds as e.g. "2h 05m" or "25m"
+     */
+    public static formatDuration(seconds: number): string {
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+    }
+}
\ No newline at end of file
@@ -1,71 +1,324 @@
 import { EventEmitter } from 'events';
-import { TimerState, TimerContext, TimerEventData } from './types';
+import {
+    TimerState,
+    TimerContext,
+    TimerEventData,
+    Clock,
+    TimerHandle,
+    HistoryEntry,
+    PhaseStatus,
+    PhaseDefinition,
+    PhaseKind,
+    WorkspaceAttribution,
+    InterruptionType,
+    Interruption
+} from './types';
+import { SystemClock } from './clock';
+import { TimeFormatter } from './timeFormatter';
 
 /**
  * Core timer management class that handles work sessions and rest periods
  * Implements a state machine for timer transitions and accurate time tracking
+ * Emits 'phaseEnd' with a HistoryEntry whenever a phase completes or is abandoned
  */
 export class TimerManager extends EventEmitter {
     private context: TimerContext;
-    private intervalId: NodeJS.Timeout | null = null;
+    private intervalId: TimerHandle | null = null;
     private readonly TICK_INTERVAL = 1000; // 1 second
+    private readonly clock: Clock;
+    private overtimeEnabled: boolean = false;
+    private sequence: PhaseDefinition[] = [];
+    private static readonly STATE_BY_KIND: { [kind in PhaseKind]: TimerState } = {
+        work: TimerState.WORK_SESSION,
+        rest: TimerState.REST_PERIOD,
+        longBreak: TimerState.LONG_BREAK
+    };
 
-    constructor(sessionDuration: number = 25, restDuration: number = 5) {
+    constructor(
+        sessionDuration: number = 25,
+        restDuration: number = 5,
+        longBreakDuration: number = 15,
+        clock: Clock = new SystemClock()
+    ) {
         super();
+        this.clock = clock;
         this.context = {
             currentState: TimerState.IDLE,
             remainingTime: 0,
             sessionDuration,
-            restDuration
+            restDuration,
+            longBreakDuration
         };
     }
 
     /**
-     * Starts a work session
+     * Starts a work session, or the next work step of the custom phase sequence
      */
     public startSession(): void {
+        const stepIndex = this.findNextStep(['work']);
+        if (stepIndex !== undefined) {
+            this.startStep(stepIndex);
+        } else {
+            this.startCountdown(TimerState.WORK_SESSION, this.context.sessionDuration * 60);
+        }
+    }
+
+    /**
+     * Starts a flowtime work session, which counts up until it is stopped
+     */
+    public startFlowSession(): void {
         this.stopTimer();
+        this.endCurrentPhase('reset');
         this.context = {
             ...this.context,
             currentState: TimerState.WORK_SESSION,
-            remainingTime: this.context.sessionDuration * 60, // convert to seconds
-            sessionStartTime: new Date(),
-            pausedAt: undefined
+            remainingTime: 0,
+            sessionStartTime: this.clock.now(),
+            phaseEndTime: undefined,
+            plannedDuration: undefined,
+            pausedTime: 0,
+            elapsedTime: 0,
+            countUp: true,
+            adjustedTime: undefined,
+            sequenceStep: undefined,
+            pausedFrom: undefined,
+            pausedAt: undefined,
+            idlePaused: undefined,
+            focusLosses: undefined,
+            timeAway: undefined,
+            awaySince: undefined,
+            breakViolations: undefined,
+            interruptions: undefined
         };
         this.startTimer();
         this.emitStateChange();
     }
 
     /**
-     * Starts a rest period
+     * Stops a running or paused flowtime work session, completing it
+     * Returns the seconds worked, or 0 if no flow session was running
      */
-    public startRest(): void {
-        this.stopTimer();
+    public stopFlowSession(): number {
+        if (!this.isFlowSession()) {
+            return 0;
+        }
+        
+        // Fold an ongoing pause into the session before completing it
         this.context = {
             ...this.context,
-            currentState: TimerState.REST_PERIOD,
-            remainingTime: this.context.restDuration * 60, // convert to seconds
-            sessionStartTime: new Date(),
-            pausedAt: undefined
+            currentState: TimerState.WORK_SESSION,
+            pausedTime: this.getPausedTime(),
+            pausedFrom: undefined,
+            pausedAt: undefined,
+            idlePaused: undefined
         };
-        this.startTimer();
-        this.emitStateChange();
+        const workedTime = this.computeElapsedTime();
+        this.handleTimerCompletion();
+        return workedTime;
     }
 
     /**
-     * Pauses the current timer
+     * Ends the current work session, rest period or long break early, as if it had run out
+     * The time spent so far is credited and the usual completion follows; a flow session is stopped
+     * Returns false if there is no phase to skip
      */
-    public pause(): void {
-        if (this.context.currentState === TimerState.WORK_SESSION || 
-            this.context.currentState === TimerState.REST_PERIOD) {
-            this.stopTimer();
+    public skip(): boolean {
+        if (this.isFlowSession()) {
+            this.stopFlowSession();
+            return true;
+        }
+        
+        if (!this.canAdjustTime()) {
+            return false;
+        }
+        
+        if (this.isPaused()) {
+            // Fold the ongoing pause into the phase before completing it
             this.context = {
                 ...this.context,
-                currentState: TimerState.PAUSED,
-                pausedAt: new Date()
+                currentState: this.context.pausedFrom ?? TimerState.WORK_SESSION,
+                phaseEndTime: this.computePhaseEndTime(this.context.remainingTime),
+                pausedTime: this.getPausedTime(),
+                pausedFrom: undefined,
+                pausedAt: undefined,
+                idlePaused: undefined
             };
-            this.emitStateChange();
         }
+        
+        this.handleTimerCompletion('skipped');
+        return true;
+    }
+
+    /**
+     * Starts a rest period of the given length, or else the next break of the custom phase
+     * sequence or a rest period of the configured length
+     */
+    public startRest(restSeconds?: number): void {
+        const stepIndex = restSeconds === undefined ? this.findNextStep(['rest', 'longBreak']) : undefined;
+        if (stepIndex !== undefined) {
+            this.startStep(stepIndex);
+        } else {
+            this.startCountdown(TimerState.REST_PERIOD, restSeconds ?? this.context.restDuration * 60);
+        }
+    }
+
+    /**
+     * Starts a long break, or the next (long) break of the custom phase sequence
+     */
+    public startLongBreak(): void {
+        const stepIndex = this.findNextStep(['longBreak']) ?? this.findNextStep(['rest']);
+        if (stepIndex !== undefined) {
+            this.startStep(stepIndex);
+        } else {
+            this.startCountdown(TimerState.LONG_BREAK, this.getLongBreakDuration() * 60);
+        }
+    }
+
+    /**
+     * Starts the step of the custom phase sequence that follows the last one started
+     * Returns false if no sequence is set
+     */
+    public startNextPhase(): boolean {
+        const stepIndex = this.findNextStep(['work', 'rest', 'longBreak']);
+        if (stepIndex === undefined) {
+            return false;
+        }
+        
+        this.startStep(stepIndex);
+        return true;
+    }
+
+    /**
+     * Gets the step of the custom phase sequence that starts next, if a sequence is set
+     */
+    public getNextStep(): PhaseDefinition | undefined {
+        const stepIndex = this.findNextStep(['work', 'rest', 'longBreak']);
+        return stepIndex !== undefined ? this.sequence[stepIndex] : undefined;
+    }
+
+    /**
+     * Sets the custom phase sequence to advance through instead of the classic work and rest cycle
+     * A running phase is left alone; a changed sequence starts over from its first step
+     */
+    public setSequence(sequence: PhaseDefinition[]): void {
+        if (JSON.stringify(sequence) !== JSON.stringify(this.sequence)) {
+            this.sequence = [...sequence];
+            this.context.sequenceIndex = undefined;
+        }
+    }
+
+    /**
+     * Checks if a custom phase sequence is set
+     */
+    public hasSequence(): boolean {
+        return this.sequence.length > 0;
+    }
+
+    /**
+     * Credits the current phase, and the phases that follow it, to a project
+     */
+    public setWorkspace(workspace: WorkspaceAttribution | undefined): void {
+        this.context.workspace = workspace;
+    }
+
+    /**
+     * Labels the current work session, and the ones that follow it, with what they are for
+     */
+    public setLabel(label: string | undefined): void {
+        this.context.label = label || undefined;
+    }
+
+    /**
+     * Pauses the current timer
+     */
+    public pause(): void {
+        if (this.isRunning()) {
+            this.pauseAt(this.clock.now());
+        }
+    }
+
+    /**
+     * Pauses a running work session as of the last activity, since the user has been away from then on
+     * The time away counts as paused, so it is excluded from the session
+     * Returns false if no work session is running
+     */
+    public pauseWhileIdle(lastActivity: Date): boolean {
+        if (this.context.currentState !== TimerState.WORK_SESSION) {
+            return false;
+        }
+        
+        const now = this.clock.now().getTime();
+        const sessionStart = this.context.sessionStartTime?.getTime() ?? now;
+        this.pauseAt(new Date(Math.min(now, Math.max(sessionStart, lastActivity.getTime()))), true);
+        return true;
+    }
+
+    /**
+     * Counts the user leaving VS Code during a running work session, away as of the given time
+     */
+    public recordFocusLoss(since: Date): void {
+        if (this.context.currentState !== TimerState.WORK_SESSION || this.context.awaySince) {
+            return;
+        }
+        
+        const sessionStart = this.context.sessionStartTime?.getTime() ?? since.getTime();
+        this.context = {
+            ...this.context,
+            focusLosses: (this.context.focusLosses ?? 0) + 1,
+            awaySince: new Date(Math.max(sessionStart, since.getTime()))
+        };
+        this.emitStateChange();
+    }
+
+    /**
+     * Adds the time away to the work session once the user is back in VS Code
+     */
+    public recordFocusReturn(returnedAt: Date = this.clock.now()): void {
+        if (!this.context.awaySince) {
+            return;
+        }
+        
+        this.context = {
+            ...this.context,
+            timeAway: this.getTimeAway(returnedAt),
+            awaySince: undefined
+        };
+        this.emitStateChange();
+    }
+
+    /**
+     * Counts the user working on during a running rest period or long break
+     * Returns false if no break is running
+     */
+    public recordBreakViolation(): boolean {
+        if (this.context.currentState !== TimerState.REST_PERIOD && this.context.currentState !== TimerState.LONG_BREAK) {
+            return false;
+        }
+        
+        this.context = {
+            ...this.context,
+            breakViolations: (this.context.breakViolations ?? 0) + 1
+        };
+        this.emitStateChange();
+        return true;
+    }
+
+    /**
+     * Logs an interruption of the running or paused work session, with an optional note
+     * Returns false if there is no work session to interrupt
+     */
+    public recordInterruption(type: InterruptionType, note?: string): boolean {
+        if (!this.isWorkSession()) {
+            return false;
+        }
+        
+        const interruption: Interruption = { type, note: note || undefined, loggedAt: this.clock.now().getTime() };
+        this.context = {
+            ...this.context,
+            interruptions: [...(this.context.interruptions ?? []), interruption]
+        };
+        this.emitStateChange();
+        return true;
     }
 
     /**
@@ -73,21 +326,42 @@ export class TimerManager extends EventEmitter {
      */
     public resume(): void {
         if (this.context.currentState === TimerState.PAUSED && this.context.pausedAt) {
-            // Determine what state to resume to based on previous context
-            const previousState = this.context.remainingTime > 0 ? 
-                (this.context.sessionStartTime ? TimerState.WORK_SESSION : TimerState.REST_PERIOD) :
-                TimerState.IDLE;
+            // Resume the phase that was paused (states saved by earlier versions were work sessions)
+            const previousState = this.context.pausedFrom ?? TimerState.WORK_SESSION;
             
+            if (this.context.countUp) {
+                // A flow session has no end to shift; the pause is excluded from its elapsed time
+                this.context = {
+                    ...this.context,
+                    currentState: previousState,
+                    pausedTime: this.getPausedTime(),
+                    pausedFrom: undefined,
+                    pausedAt: undefined,
+                    idlePaused: undefined
+                };
+                this.startTimer();
+                this.emitStateChange();
+                return;
+            }
+            
+            // Shift the phase end by the time spent paused
             this.context = {
                 ...this.context,
                 currentState: previousState,
-                pausedAt: undefined
+                phaseEndTime: this.computePhaseEndTime(this.context.remainingTime),
+                pausedTime: this.getPausedTime(),
+                pausedFrom: undefined,
+                pausedAt: undefined,
+                idlePaused: undefined
             };
             
-            if (previousState !== TimerState.IDLE) {
+            if (this.context.remainingTime > 0) {
                 this.startTimer();
+                this.emitStateChange();
+            } else {
+                // Shortened while paused past its new end
+                this.handleTimerCompletion();
             }
-            this.emitStateChange();
         }
     }
 
@@ -95,39 +369,180 @@ export class TimerManager extends EventEmitter {
      * Resets the timer to idle state
      */
     public reset(): void {
+        this.resetAs('reset');
+    }
+
+    /**
+     * Voids the running or paused work session, as an external interruption does in the Pomodoro technique:
+     * it is recorded as void and the timer resets
+     * Returns false if there is no work session to void
+     */
+    public voidSession(): boolean {
+        if (!this.isWorkSession()) {
+            return false;
+        }
+        
+        this.resetAs('void');
+        return true;
+    }
+
+    /**
+     * Ends the current phase with the given status and returns to idle
+     */
+    private resetAs(status: PhaseStatus): void {
         this.stopTimer();
+        this.endCurrentPhase(status);
         this.context = {
             ...this.context,
             currentState: TimerState.IDLE,
             remainingTime: 0,
             sessionStartTime: undefined,
-            pausedAt: undefined
+            phaseEndTime: undefined,
+            plannedDuration: undefined,
+            pausedTime: undefined,
+            elapsedTime: undefined,
+            countUp: undefined,
+            adjustedTime: undefined,
+            sequenceStep: undefined,
+            pausedFrom: undefined,
+            pausedAt: undefined,
+            idlePaused: undefined,
+            focusLosses: undefined,
+            timeAway: undefined,
+            awaySince: undefined,
+            breakViolations: undefined,
+            interruptions: undefined
         };
         this.emitStateChange();
     }
 
     /**
-     * Updates session and rest durations
+     * Adds time to, or with a negative delta removes time from, the current work session, rest period or long break
+     * Works while paused too; a running phase cut down to nothing completes right away
+     * Returns false if there is no countdown to adjust
+     */
+    public adjustRemainingTime(deltaSeconds: number): boolean {
+        if (!this.canAdjustTime()) {
+            return false;
+        }
+        
+        const phase = this.isPaused() ? this.context.pausedFrom ?? TimerState.WORK_SESSION : this.context.currentState;
+        const remainingTime = this.isRunning() ? this.computeRemainingTime() : this.context.remainingTime;
+        const newRemainingTime = Math.max(0, remainingTime + Math.round(deltaSeconds));
+        const appliedDelta = newRemainingTime - remainingTime;
+        
+        // The planned duration follows the adjustment, so history reflects the length actually aimed for
+        this.context.remainingTime = newRemainingTime;
+        this.context.plannedDuration = (this.context.plannedDuration ?? this.getPhaseDuration(phase) * 60) + appliedDelta;
+        this.context.adjustedTime = (this.context.adjustedTime ?? 0) + appliedDelta;
+        
+        if (this.isRunning()) {
+            this.context.phaseEndTime = this.computePhaseEndTime(newRemainingTime);
+            if (newRemainingTime === 0) {
+                this.handleTimerCompletion();
+                return true;
+            }
+        }
+        
+        this.emitStateChange();
+        return true;
+    }
+
+    /**
+     * Sets the exact time left in the current work session, rest period or long break
+     * Returns false if there is no countdown to adjust
+     */
+    public setRemainingTime(seconds: number): boolean {
+        const remainingTime = this.isRunning() ? this.computeRemainingTime() : this.context.remainingTime;
+        return this.adjustRemainingTime(seconds - remainingTime);
+    }
+
+    /**
+     * Checks if a running or paused phase counts down, so its remaining time can be adjusted
      */
-    public updateDurations(sessionDuration: number, restDuration: number): void {
+    public canAdjustTime(): boolean {
+        const phase = this.isPaused() ? this.context.pausedFrom ?? TimerState.WORK_SESSION : this.context.currentState;
+        return !this.context.countUp &&
+            (phase === TimerState.WORK_SESSION || phase === TimerState.REST_PERIOD || phase === TimerState.LONG_BREAK);
+    }
+
+    /**
+     * Enables or disables overtime, where a finished work session counts up until a break starts
+     */
+    public setOvertimeEnabled(enabled: boolean): void {
+        this.overtimeEnabled = enabled;
+    }
+
+    /**
+     * Restores a previously persisted timer, e.g. after a window reload
+     * Durations stay as currently configured; a running phase keeps its end time
+     */
+    public restore(context: TimerContext): void {
+        this.stopTimer();
+        this.context = {
+            ...context,
+            sessionDuration: this.context.sessionDuration,
+            restDuration: this.context.restDuration,
+            longBreakDuration: this.context.longBreakDuration
+        };
+        
+        if (this.isCountingUp()) {
+            this.context.elapsedTime = this.computeElapsedTime();
+            this.startTimer();
+        } else if (this.isRunning()) {
+            this.context.phaseEndTime = this.context.phaseEndTime ?? this.computePhaseEndTime(this.context.remainingTime);
+            this.context.remainingTime = this.computeRemainingTime();
+            this.startTimer();
+        } else if (this.isFlowSession()) {
+            // A paused flow session shows the time focused before the pause
+            this.context.elapsedTime = this.computeElapsedTime();
+        }
+        this.emitStateChange();
+    }
+
+    /**
+     * Updates session, rest and long break durations
+     * The running phase keeps the time spent and takes its new length, unless adjustRunningPhase is false
+     */
+    public updateDurations(
+        sessionDuration: number,
+        restDuration: number,
+        longBreakDuration: number = this.getLongBreakDuration(),
+        adjustRunningPhase: boolean = true
+    ): void {
         const oldSessionDuration = this.context.sessionDuration;
         const oldRestDuration = this.context.restDuration;
+        const oldLongBreakDuration = this.getLongBreakDuration();
         
         this.context.sessionDuration = sessionDuration;
         this.context.restDuration = restDuration;
+        this.context.longBreakDuration = longBreakDuration;
         
         // If currently idle, no need to adjust running timer
         if (this.context.currentState === TimerState.IDLE) {
             return;
         }
         
+        // Flow sessions have no fixed length to adjust, sequence steps keep their own, and the
+        // running phase may be left to finish as planned
+        if (!adjustRunningPhase || this.context.countUp || this.context.sequenceStep) {
+            this.emitStateChange();
+            return;
+        }
+        
+        // Bring the countdown up to date before adjusting it
+        if (this.isRunning()) {
+            this.context.remainingTime = this.computeRemainingTime();
+        }
+        
         // Handle duration changes during active sessions
         if (this.context.currentState === TimerState.WORK_SESSION) {
             // If work session duration changed, adjust remaining time proportionally
             if (oldSessionDuration !== sessionDuration) {
-                const elapsedTime = (oldSessionDuration * 60) - this.context.remainingTime;
-                const newTotalTime = sessionDuration * 60;
+                const elapsedTime = (this.context.plannedDuration ?? oldSessionDuration * 60) - this.context.remainingTime;
+                const newTotalTime = sessionDuration * 60 + (this.context.adjustedTime ?? 0);
                 this.context.remainingTime = Math.max(0, newTotalTime - elapsedTime);
+                this.context.plannedDuration = newTotalTime;
                 
                 // If new duration is shorter and we've already exceeded it, complete the session
                 if (this.context.remainingTime === 0) {
@@ -138,9 +553,10 @@ export class TimerManager extends EventEmitter {
         } else if (this.context.currentState === TimerState.REST_PERIOD) {
             // If rest period duration changed, adjust remaining time proportionally
             if (oldRestDuration !== restDuration) {
-                const elapsedTime = (oldRestDuration * 60) - this.context.remainingTime;
-                const newTotalTime = restDuration * 60;
+                const elapsedTime = (this.context.plannedDuration ?? oldRestDuration * 60) - this.context.remainingTime;
+                const newTotalTime = restDuration * 60 + (this.context.adjustedTime ?? 0);
                 this.context.remainingTime = Math.max(0, newTotalTime - elapsedTime);
+                this.context.plannedDuration = newTotalTime;
                 
                 // If new duration is shorter and we've already exceeded it, complete the rest period
                 if (this.context.remainingTime === 0) {
@@ -148,22 +564,43 @@ export class TimerManager extends EventEmitter {
                     return;
                 }
             }
+        } else if (this.context.currentState === TimerState.LONG_BREAK) {
+            // If long break duration changed, adjust remaining time proportionally
+            if (oldLongBreakDuration !== longBreakDuration) {
+                const elapsedTime = (this.context.plannedDuration ?? oldLongBreakDuration * 60) - this.context.remainingTime;
+                const newTotalTime = longBreakDuration * 60 + (this.context.adjustedTime ?? 0);
+                this.context.remainingTime = Math.max(0, newTotalTime - elapsedTime);
+                this.context.plannedDuration = newTotalTime;
+                
+                // If new duration is shorter and we've already exceeded it, complete the long break
+                if (this.context.remainingTime === 0) {
+                    this.handleTimerCompletion();
+                    return;
+                }
+            }
         } else if (this.context.currentState === TimerState.PAUSED) {
-            // For paused sessions, we need to determine which type it was and adjust accordingly
-            // We can infer this from the remaining time relative to the durations
-            const wasWorkSession = this.context.remainingTime > (oldRestDuration * 60);
+            // Adjust the phase that was paused; it completes on resume if already exceeded
+            const pausedFrom = this.context.pausedFrom ?? TimerState.WORK_SESSION;
+            const durations: { [state: string]: [number, number] } = {
+                [TimerState.WORK_SESSION]: [oldSessionDuration, sessionDuration],
+                [TimerState.REST_PERIOD]: [oldRestDuration, restDuration],
+                [TimerState.LONG_BREAK]: [oldLongBreakDuration, longBreakDuration]
+            };
+            const [oldDuration, newDuration] = durations[pausedFrom] ?? [0, 0];
             
-            if (wasWorkSession && oldSessionDuration !== sessionDuration) {
-                const elapsedTime = (oldSessionDuration * 60) - this.context.remainingTime;
-                const newTotalTime = sessionDuration * 60;
-                this.context.remainingTime = Math.max(0, newTotalTime - elapsedTime);
-            } else if (!wasWorkSession && oldRestDuration !== restDuration) {
-                const elapsedTime = (oldRestDuration * 60) - this.context.remainingTime;
-                const newTotalTime = restDuration * 60;
+            if (oldDuration !== newDuration) {
+                const elapsedTime = (this.context.plannedDuration ?? oldDuration * 60) - this.context.remainingTime;
+                const newTotalTime = newDuration * 60 + (this.context.adjustedTime ?? 0);
                 this.context.remainingTime = Math.max(0, newTotalTime - elapsedTime);
+                this.context.plannedDuration = newTotalTime;
             }
         }
         
+        // Recompute the phase end from the adjusted remaining time
+        if (this.isRunning()) {
+            this.context.phaseEndTime = this.computePhaseEndTime(this.context.remainingTime);
+        }
+        
         // Emit state change to update the display immediately
         this.emitStateChange();
     }
@@ -180,7 +617,38 @@ export class TimerManager extends EventEmitter {
      */
     public isRunning(): boolean {
         return this.context.currentState === TimerState.WORK_SESSION || 
-               this.context.currentState === TimerState.REST_PERIOD;
+               this.context.currentState === TimerState.REST_PERIOD ||
+               this.context.currentState === TimerState.LONG_BREAK;
+    }
+
+    /**
+     * Checks if a finished work session is counting up overtime
+     */
+    public isOvertime(): boolean {
+        return this.context.currentState === TimerState.OVERTIME;
+    }
+
+    /**
+     * Checks if a work session, counting down or flowtime, is running or paused
+     */
+    public isWorkSession(): boolean {
+        const phase = this.isPaused() ? this.context.pausedFrom : this.context.currentState;
+        return phase === TimerState.WORK_SESSION;
+    }
+
+    /**
+     * Checks if a flowtime work session is running or paused
+     */
+    public isFlowSession(): boolean {
+        return !!this.context.countUp &&
+            (this.context.currentState === TimerState.WORK_SESSION || this.context.currentState === TimerState.PAUSED);
+    }
+
+    /**
+     * Checks if the running phase counts up (a flow session or overtime) rather than down
+     */
+    private isCountingUp(): boolean {
+        return this.isOvertime() || (this.context.currentState === TimerState.WORK_SESSION && !!this.context.countUp);
     }
 
     /**
@@ -190,13 +658,271 @@ export class TimerManager extends EventEmitter {
         return this.context.currentState === TimerState.PAUSED;
     }
 
+    /**
+     * Parses a time typed by the user: mm:ss, h:mm:ss, a number of minutes, or units such as 15m, 90s or 1h30m
+     * Returns the time in seconds, or null if the input is not a time
+     */
+    public parseTime(input: string): number | null {
+        const value = input.trim().toLowerCase();
+        
+        const clockMatch = /^(?:(\d+):)?(\d+):(\d{2})$/.exec(value);
+        if (clockMatch) {
+            const [, hours, minutes, seconds] = clockMatch;
+            if (Number(seconds) >= 60 || (hours !== undefined && Number(minutes) >= 60)) {
+                return null;
+            }
+            return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+        }
+        
+        if (/^\d+(\.\d+)?$/.test(value)) {
+            return Math.round(Number(value) * 60);
+        }
+        
+        const unitMatch = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+)\s*s)?$/.exec(value);
+        if (unitMatch && (unitMatch[1] || unitMatch[2] || unitMatch[3])) {
+            const [, hours, minutes, seconds] = unitMatch;
+            return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+        }
+        
+        return null;
+    }
+
     /**
      * Formats remaining time as MM:SS string
      */
     public formatTime(seconds: number = this.context.remainingTime): string {
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = seconds % 60;
-        return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+        return TimeFormatter.formatTime(seconds);
+    }
+
+    /**
+     * Finds the next step of the custom phase sequence of one of the given kinds, wrapping around
+     */
+    private findNextStep(kinds: PhaseKind[]): number | undefined {
+        const start = (this.context.sequenceIndex ?? -1) + 1;
+        for (let offset = 0; offset < this.sequence.length; offset++) {
+            const index = (start + offset) % this.sequence.length;
+            if (kinds.includes(this.sequence[index].kind)) {
+                return index;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Starts a step of the custom phase sequence
+     */
+    private startStep(index: number): void {
+        const step = this.sequence[index];
+        this.startCountdown(TimerManager.STATE_BY_KIND[step.kind], step.duration * 60, index);
+    }
+
+    /**
+     * Starts a phase counting down from the given number of seconds, optionally as a sequence step
+     */
+    private startCountdown(state: TimerState, remainingTime: number, sequenceIndex?: number): void {
+        this.stopTimer();
+        // A work session left for a break ends early with the time worked, as skipping it does
+        this.endCurrentPhase(this.isWorkSession() && state !== TimerState.WORK_SESSION ? 'skipped' : 'reset');
+        const now = this.clock.now();
+        this.context = {
+            ...this.context,
+            currentState: state,
+            remainingTime,
+            sessionStartTime: now,
+            phaseEndTime: this.computePhaseEndTime(remainingTime, now),
+            plannedDuration: remainingTime,
+            pausedTime: 0,
+            elapsedTime: undefined,
+            countUp: undefined,
+            adjustedTime: undefined,
+            sequenceIndex: sequenceIndex ?? this.context.sequenceIndex,
+            sequenceStep: sequenceIndex !== undefined ? this.sequence[sequenceIndex] : undefined,
+            pausedFrom: undefined,
+            pausedAt: undefined,
+            idlePaused: undefined,
+            focusLosses: undefined,
+            timeAway: undefined,
+            awaySince: undefined,
+            breakViolations: undefined,
+            interruptions: undefined
+        };
+        this.startTimer();
+        this.emitStateChange();
+    }
+
+    /**
+     * Pauses the running phase as of the given time, which may lie in the past
+     */
+    private pauseAt(pausedAt: Date, idle: boolean = false): void {
+        this.stopTimer();
+        this.context = {
+            ...this.context,
+            currentState: TimerState.PAUSED,
+            pausedFrom: this.context.currentState,
+            remainingTime: this.computeRemainingTime(pausedAt),
+            elapsedTime: this.context.countUp ? this.computeElapsedTime(pausedAt) : this.context.elapsedTime,
+            phaseEndTime: undefined,
+            pausedAt,
+            idlePaused: idle || undefined,
+            timeAway: this.context.awaySince ? this.getTimeAway(pausedAt) : this.context.timeAway,
+            awaySince: undefined
+        };
+        this.emitStateChange();
+    }
+
+    /**
+     * Gets the long break duration, falling back to the default for older contexts
+     */
+    private getLongBreakDuration(): number {
+        return this.context.longBreakDuration ?? 15;
+    }
+
+    /**
+     * Gets the configured duration of a phase in minutes
+     */
+    private getPhaseDuration(phase: TimerState): number {
+        switch (phase) {
+            case TimerState.REST_PERIOD:
+                return this.context.restDuration;
+            case TimerState.LONG_BREAK:
+                return this.getLongBreakDuration();
+            default:
+                return this.context.sessionDuration;
+        }
+    }
+
+    /**
+     * Gets the seconds the current phase has spent paused, including an ongoing pause
+     */
+    private getPausedTime(now: Date = this.clock.now()): number {
+        const currentPause = this.isPaused() && this.context.pausedAt ?
+            Math.max(0, Math.round((now.getTime() - this.context.pausedAt.getTime()) / 1000)) : 0;
+        return (this.context.pausedTime ?? 0) + currentPause;
+    }
+
+    /**
+     * Gets the seconds the current work session has spent outside VS Code, including an ongoing absence
+     */
+    private getTimeAway(now: Date = this.clock.now()): number {
+        const currentAbsence = this.context.awaySince ?
+            Math.max(0, Math.round((now.getTime() - this.context.awaySince.getTime()) / 1000)) : 0;
+        return (this.context.timeAway ?? 0) + currentAbsence;
+    }
+
+    /**
+     * Emits a 'phaseEnd' history entry for the phase being left, if any, and returns it
+     */
+    private endCurrentPhase(status: PhaseStatus): HistoryEntry | undefined {
+        const phase = this.isPaused() ? this.context.pausedFrom ?? TimerState.WORK_SESSION : this.context.currentState;
+        if (phase === TimerState.IDLE || !this.context.sessionStartTime) {
+            return undefined;
+        }
+
+        const now = this.clock.now();
+        let entry: HistoryEntry;
+
+        if (phase === TimerState.OVERTIME) {
+            // Overtime has no planned length; it always ends with the user moving on
+            entry = {
+                phase,
+                status: 'completed',
+                startTime: this.context.sessionStartTime,
+                endTime: now,
+                plannedDuration: 0,
+                actualDuration: this.computeElapsedTime(now),
+                pausedTime: 0
+            };
+        } else if (this.context.countUp) {
+            // A flow session lasts as long as it was worked
+            const elapsedTime = this.computeElapsedTime(now);
+            entry = {
+                phase,
+                status,
+                startTime: this.context.sessionStartTime,
+                endTime: now,
+                plannedDuration: elapsedTime,
+                actualDuration: elapsedTime,
+                pausedTime: this.getPausedTime(now)
+            };
+        } else {
+            const remainingTime = this.isRunning() ? this.computeRemainingTime(now) : this.context.remainingTime;
+            const plannedDuration = this.context.plannedDuration ?? this.getPhaseDuration(phase) * 60;
+            entry = {
+                phase,
+                status,
+                startTime: this.context.sessionStartTime,
+                endTime: this.getPhaseEndTime(status, now),
+                plannedDuration,
+                actualDuration: Math.max(0, plannedDuration - remainingTime),
+                pausedTime: this.getPausedTime(now),
+                adjustedTime: this.context.adjustedTime || undefined,
+                phaseName: this.context.sequenceStep?.name
+            };
+        }
+
+        // Credit the phase to the project it was started in, if known
+        if (this.context.workspace) {
+            entry.workspaceName = this.context.workspace.workspaceName;
+            entry.workspaceFolder = this.context.workspace.workspaceFolder;
+            entry.branch = this.context.workspace.branch;
+        }
+
+        if ((phase === TimerState.WORK_SESSION || phase === TimerState.OVERTIME) && this.context.label) {
+            entry.label = this.context.label;
+        }
+
+        if (phase === TimerState.WORK_SESSION && this.context.focusLosses) {
+            entry.focusLosses = this.context.focusLosses;
+            entry.timeAway = this.getTimeAway(entry.endTime);
+        }
+
+        if (phase === TimerState.WORK_SESSION && this.context.interruptions?.length) {
+            entry.interruptions = this.context.interruptions;
+        }
+
+        if (phase !== TimerState.WORK_SESSION && this.context.breakViolations) {
+            entry.breakViolations = this.context.breakViolations;
+        }
+
+        this.emit('phaseEnd', entry);
+        return entry;
+    }
+
+    /**
+     * Gets when the current phase ended
+     * A phase that ran out while the host was suspended ended at its scheduled time
+     */
+    private getPhaseEndTime(status: PhaseStatus, now: Date = this.clock.now()): Date {
+        const phaseEndTime = this.context.phaseEndTime;
+        return status === 'completed' && phaseEndTime && phaseEndTime < now ? phaseEndTime : now;
+    }
+
+    /**
+     * Derives the seconds counted up by a count-up phase from its start, excluding pauses
+     */
+    private computeElapsedTime(now: Date = this.clock.now()): number {
+        if (!this.context.sessionStartTime) {
+            return this.context.elapsedTime ?? 0;
+        }
+        const totalTime = Math.floor((now.getTime() - this.context.sessionStartTime.getTime()) / 1000);
+        return Math.max(0, totalTime - this.getPausedTime(now));
+    }
+
+    /**
+     * Computes the absolute end of a phase with the given remaining seconds
+     */
+    private computePhaseEndTime(remainingTime: number, now: Date = this.clock.now()): Date {
+        return new Date(now.getTime() + remainingTime * 1000);
+    }
+
+    /**
+     * Derives the remaining seconds of the running phase from its end timestamp
+     */
+    private computeRemainingTime(now: Date = this.clock.now()): number {
+        if (!this.context.phaseEndTime) {
+            return this.context.remainingTime;
+        }
+        return Math.max(0, Math.ceil((this.context.phaseEndTime.getTime() - now.getTime()) / 1000));
     }
 
     /**
@@ -204,10 +930,10 @@ export class TimerManager extends EventEmitter {
      */
     private startTimer(): void {
         if (this.intervalId) {
-            clearInterval(this.intervalId);
+            this.clock.clearInterval(this.intervalId);
         }
 
-        this.intervalId = setInterval(() => {
+        this.intervalId = this.clock.setInterval(() => {
             this.tick();
         }, this.TICK_INTERVAL);
     }
@@ -217,17 +943,26 @@ export class TimerManager extends EventEmitter {
      */
     private stopTimer(): void {
         if (this.intervalId) {
-            clearInterval(this.intervalId);
+            this.clock.clearInterval(this.intervalId);
             this.intervalId = null;
         }
     }
 
     /**
      * Handles each timer tick (1 second interval)
+     * Remaining time is derived from the wall clock, so delayed or skipped
+     * ticks (throttling, a busy host, system sleep) never slow the countdown
      */
     private tick(): void {
+        if (this.isCountingUp()) {
+            this.context.elapsedTime = this.computeElapsedTime();
+            this.emitStateChange();
+            return;
+        }
+        
+        this.context.remainingTime = this.computeRemainingTime();
+        
         if (this.context.remainingTime > 0) {
-            this.context.remainingTime--;
             this.emitStateChange();
         } else {
             // Timer completed - transition to next state
@@ -237,33 +972,54 @@ export class TimerManager extends EventEmitter {
 
     /**
      * Handles timer completion and state transitions
+     * A skipped phase completes the same way, but a skipped work session never runs into overtime
      */
-    private handleTimerCompletion(): void {
-        const currentState = this.context.currentState;
+    private handleTimerCompletion(status: PhaseStatus = 'completed'): void {
+        const completedState = this.context.currentState;
         this.stopTimer();
 
-        if (currentState === TimerState.WORK_SESSION) {
-            // Work session completed - emit completion event
-            this.emitStateChange(true);
+        if (completedState === TimerState.WORK_SESSION ||
+            completedState === TimerState.REST_PERIOD ||
+            completedState === TimerState.LONG_BREAK) {
+            const countUp = !!this.context.countUp;
+            const sequenceStep = this.context.sequenceStep;
+            const entry = this.endCurrentPhase(status);
+            const skipped = status === 'skipped';
+            const overtime = completedState === TimerState.WORK_SESSION && this.overtimeEnabled && !countUp && !skipped;
             
-            // Transition to idle (rest will be started by external logic if auto-start is enabled)
+            // Transition to idle (or overtime, counting up from the scheduled end) first, so listeners
+            // reacting to the completion (auto-start, tests) can start the next phase without it being overwritten
             this.context = {
                 ...this.context,
-                currentState: TimerState.IDLE,
+                currentState: overtime ? TimerState.OVERTIME : TimerState.IDLE,
                 remainingTime: 0,
-                sessionStartTime: undefined
+                sessionStartTime: overtime ? this.getPhaseEndTime('completed') : undefined,
+                phaseEndTime: undefined,
+                plannedDuration: undefined,
+                pausedTime: undefined,
+                elapsedTime: overtime ? 0 : undefined,
+                countUp: undefined,
+                adjustedTime: undefined,
+                sequenceStep: undefined,
+                focusLosses: undefined,
+                timeAway: undefined,
+                awaySince: undefined,
+                breakViolations: undefined,
+                interruptions: undefined
             };
-        } else if (currentState === TimerState.REST_PERIOD) {
-            // Rest period completed - emit completion event
-            this.emitStateChange(true);
             
-            // Transition to idle (work session will be started by external logic if auto-start is enabled)
-            this.context = {
-                ...this.context,
-                currentState: TimerState.IDLE,
-                remainingTime: 0,
-                sessionStartTime: undefined
-            };
+            if (overtime) {
+                this.context.elapsedTime = this.computeElapsedTime();
+                this.startTimer();
+            }
+
+            // Emit completion event for the phase that just ended
+            this.emitStateChange(true, completedState, {
+                duration: entry?.actualDuration,
+                countUp: countUp || undefined,
+                skipped: skipped || undefined,
+                sequenceStep
+            });
         }
 
         this.emitStateChange();
@@ -272,11 +1028,16 @@ export class TimerManager extends EventEmitter {
     /**
      * Emits state change events for listeners
      */
-    private emitStateChange(isTransition: boolean = false): void {
+    private emitStateChange(
+        isTransition: boolean = false,
+        state: TimerState = this.context.currentState,
+        details: Partial<TimerEventData> = {}
+    ): void {
         const eventData: TimerEventData = {
-            state: this.context.currentState,
+            state,
             remainingTime: this.context.remainingTime,
-            isTransition
+            isTransition,
+            ...details
         };
         
         this.emit('stateChange', eventData);
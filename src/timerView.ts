@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { StateManager } from './stateManager';
+import { TaskStore } from './taskStore';
+import { TimeFormatter } from './timeFormatter';
+import { TimerState, TimerContext, HistoryEntry, Task } from './types';
+
+/**
+ * A node of the timer view: the current phase, a section, a work session of today, a task,
+ * or a message standing in for an empty section
+ */
+type TimerViewNode =
+    { kind: 'phase' } |
+    { kind: 'section'; section: 'today' | 'tasks' } |
+    { kind: 'session'; entry: HistoryEntry } |
+    { kind: 'task'; task: Task } |
+    { kind: 'message'; section: 'today' | 'tasks' };
+
+/**
+ * Sidebar view of the timer: the current phase with its controls, today's completed work sessions and the open tasks
+ * Timer ticks only re-render the phase node; the sections are re-rendered when the history or tasks change
+ */
+export class TimerView implements vscode.TreeDataProvider<TimerViewNode> {
+    private static readonly VIEW_ID = 'workSessionManager.timer';
+
+    private readonly phaseNode: TimerViewNode = { kind: 'phase' };
+    private readonly todayNode: TimerViewNode = { kind: 'section', section: 'today' };
+    private readonly tasksNode: TimerViewNode = { kind: 'section', section: 'tasks' };
+    private changeEmitter = new vscode.EventEmitter<TimerViewNode | undefined>();
+    private treeView: vscode.TreeView<TimerViewNode>;
+    private subscriptions: vscode.Disposable[] = [];
+    private stateManager: StateManager;
+    private taskStore: TaskStore;
+    private context: TimerContext | null = null;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(stateManager: StateManager, taskStore: TaskStore) {
+        this.stateManager = stateManager;
+        this.taskStore = taskStore;
+        this.treeView = vscode.window.createTreeView(TimerView.VIEW_ID, { treeDataProvider: this });
+
+        // Ticks are not shown while the view is hidden, so catch up when it is shown again
+        this.subscriptions.push(this.treeView.onDidChangeVisibility(event => {
+            if (event.visible) {
+                this.refresh();
+            }
+        }));
+    }
+
+    /**
+     * Shows the latest state of the timer, re-rendering the phase node only, and only while the view is visible
+     */
+    public update(context: TimerContext): void {
+        this.context = context;
+        if (this.treeView.visible) {
+            this.changeEmitter.fire(this.phaseNode);
+        }
+    }
+
+    /**
+     * Re-renders the whole view from the latest history and tasks
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Builds the tree item shown for a node
+     */
+    public getTreeItem(node: TimerViewNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'phase':
+                return this.getPhaseItem();
+            case 'section':
+                return this.getSectionItem(node.section);
+            case 'session':
+                return this.getSessionItem(node.entry);
+            case 'task':
+                return this.getTaskItem(node.task);
+            case 'message':
+                return this.getMessageItem(node.section);
+        }
+    }
+
+    /**
+     * Gets the nodes under a node, or the top-level nodes
+     */
+    public getChildren(node?: TimerViewNode): TimerViewNode[] {
+        if (!node) {
+            return [this.phaseNode, this.todayNode, this.tasksNode];
+        }
+
+        if (node === this.todayNode) {
+            const sessions = this.getTodaySessions();
+            return sessions.length > 0 ?
+                sessions.map(entry => ({ kind: 'session', entry })) : [{ kind: 'message', section: 'today' }];
+        }
+
+        if (node === this.tasksNode) {
+            const tasks = this.getOpenTasks();
+            return tasks.length > 0 ? tasks.map(task => ({ kind: 'task', task })) : [{ kind: 'message', section: 'tasks' }];
+        }
+
+        return [];
+    }
+
+    /**
+     * Builds the node of the current phase, whose context value selects its inline controls
+     */
+    private getPhaseItem(): vscode.TreeItem {
+        const context = this.context;
+        const state = context?.currentState ?? TimerState.IDLE;
+        const phase = state === TimerState.PAUSED ? context?.pausedFrom ?? TimerState.WORK_SESSION : state;
+        const name = state === TimerState.IDLE ? 'Ready' : this.getPhaseName(phase, context);
+
+        const item = new vscode.TreeItem(state === TimerState.PAUSED ? `${name} (paused)` : name);
+        item.id = 'phase';
+
+        if (!context || state === TimerState.IDLE) {
+            item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+            item.contextValue = 'phase.idle';
+            item.tooltip = 'Start a work session';
+            return item;
+        }
+
+        if (phase === TimerState.OVERTIME) {
+            item.description = `+${TimeFormatter.formatTime(context.elapsedTime ?? 0)} overtime`;
+        } else if (context.countUp) {
+            item.description = `${TimeFormatter.formatTime(context.elapsedTime ?? 0)} focused`;
+        } else {
+            item.description = `${TimeFormatter.formatTime(context.remainingTime)} remaining`;
+        }
+
+        item.iconPath = new vscode.ThemeIcon(state === TimerState.PAUSED ? 'debug-pause' : phase === TimerState.OVERTIME ? 'warning' : 'clock');
+        item.contextValue = state === TimerState.PAUSED ? 'phase.paused' : phase === TimerState.OVERTIME ? 'phase.overtime' : 'phase.running';
+        item.tooltip = context.label && (phase === TimerState.WORK_SESSION || phase === TimerState.OVERTIME) ?
+            `${name}\nWorking on: ${context.label}` : name;
+        return item;
+    }
+
+    /**
+     * Gets the name of a phase, taking that of a custom sequence step or a flow session over the default
+     */
+    private getPhaseName(phase: TimerState, context: TimerContext | null): string {
+        if (context?.sequenceStep) {
+            return context.sequenceStep.name;
+        }
+
+        const names: { [state: string]: string } = {
+            [TimerState.WORK_SESSION]: context?.countUp ? 'Flow Session' : 'Work Session',
+            [TimerState.REST_PERIOD]: 'Rest Period',
+            [TimerState.LONG_BREAK]: 'Long Break',
+            [TimerState.OVERTIME]: 'Overtime'
+        };
+        return names[phase] ?? 'Work Session';
+    }
+
+    /**
+     * Builds a section node, summarizing its content in the description
+     */
+    private getSectionItem(section: 'today' | 'tasks'): vscode.TreeItem {
+        if (section === 'today') {
+            const sessions = this.getTodaySessions();
+            const focusTime = sessions.reduce((total, entry) => total + entry.actualDuration, 0);
+            const item = new vscode.TreeItem('Today', vscode.TreeItemCollapsibleState.Expanded);
+            item.id = 'section.today';
+            item.description = `${sessions.length} ${sessions.length === 1 ? 'session' : 'sessions'} · ${TimeFormatter.formatDuration(focusTime)}`;
+            return item;
+        }
+
+        const tasks = this.getOpenTasks();
+        const item = new vscode.TreeItem('Tasks', vscode.TreeItemCollapsibleState.Expanded);
+        item.id = 'section.tasks';
+        item.description = `${tasks.length} open`;
+        return item;
+    }
+
+    /**
+     * Builds the node of a completed work session, e.g. "09:00 – 09:25 Fix login race"
+     */
+    private getSessionItem(entry: HistoryEntry): vscode.TreeItem {
+        const item = new vscode.TreeItem(`${this.formatClockTime(entry.startTime)} – ${this.formatClockTime(entry.endTime)}`);
+        item.id = `session.${entry.startTime.getTime()}`;
+        item.description = entry.label ?? entry.phaseName;
+        item.iconPath = new vscode.ThemeIcon(entry.status === 'skipped' ? 'debug-step-over' : 'pass');
+
+        const details = [`${TimeFormatter.formatDuration(entry.actualDuration)} of focus`];
+        if (entry.label) {
+            details.push(`Working on: ${entry.label}`);
+        }
+        if (entry.interruptions?.length) {
+            details.push(`Interruptions: ${entry.interruptions.length}`);
+        }
+        item.tooltip = details.join('\n');
+        return item;
+    }
+
+    /**
+     * Builds the node of an open task, with the work sessions it has taken against its estimate
+     */
+    private getTaskItem(task: Task): vscode.TreeItem {
+        const active = this.taskStore.getActiveTask()?.id === task.id;
+        const status = this.taskStore.getEstimateStatus(task);
+        const item = new vscode.TreeItem(task.title);
+        item.id = `task.${task.id}`;
+        item.description = status === 'unestimated' ?
+            `${task.actual} ${task.actual === 1 ? 'session' : 'sessions'}` :
+            `${task.actual}/${task.estimate} sessions${status === 'over' ? ', over estimate' : ''}`;
+        item.iconPath = new vscode.ThemeIcon(status === 'over' ? 'warning' : active ? 'play' : 'circle-large-outline');
+        item.tooltip = active ? `${task.title}\nActive task` : task.title;
+        item.command = { command: 'workSessionManager.showTasks', title: 'Show Tasks' };
+        return item;
+    }
+
+    /**
+     * Builds the stand-in for an empty section
+     */
+    private getMessageItem(section: 'today' | 'tasks'): vscode.TreeItem {
+        if (section === 'today') {
+            return new vscode.TreeItem('No completed work sessions yet');
+        }
+
+        const item = new vscode.TreeItem('Add a task...');
+        item.iconPath = new vscode.ThemeIcon('add');
+        item.command = { command: 'workSessionManager.addTask', title: 'Add Task' };
+        return item;
+    }
+
+    /**
+     * Gets the work sessions completed today, oldest first
+     */
+    private getTodaySessions(): HistoryEntry[] {
+        return this.stateManager.getHistoryForDay()
+            .filter(entry => entry.phase === TimerState.WORK_SESSION && (entry.status === 'completed' || entry.status === 'skipped'));
+    }
+
+    /**
+     * Gets the tasks not done yet, in the order planned
+     */
+    private getOpenTasks(): Task[] {
+        return this.taskStore.getTasks().filter(task => task.completedAt === undefined);
+    }
+
+    /**
+     * Formats the local time of day as hh:mm
+     */
+    private formatClockTime(date: Date): string {
+        return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Disposes of the view
+     */
+    public dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions = [];
+        this.treeView.dispose();
+        this.changeEmitter.dispose();
+    }
+}
\ No newline at end of file
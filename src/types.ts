@@ -6,6 +6,8 @@ export enum TimerState {
     IDLE = 'idle',
     WORK_SESSION = 'work_session',
     REST_PERIOD = 'rest_period',
+    LONG_BREAK = 'long_break',
+    OVERTIME = 'overtime',
     PAUSED = 'paused'
 }
 
@@ -14,15 +16,134 @@ export interface TimerContext {
     remainingTime: number; // in seconds
     sessionDuration: number; // in minutes
     restDuration: number; // in minutes
+    longBreakDuration?: number; // in minutes
     pausedAt?: Date;
+    pausedFrom?: TimerState; // phase that was running when paused
+    idlePaused?: boolean; // paused automatically while the user was away
     sessionStartTime?: Date;
+    phaseEndTime?: Date; // absolute end of the running phase
+    plannedDuration?: number; // length of the current phase in seconds
+    pausedTime?: number; // seconds the current phase has spent paused
+    elapsedTime?: number; // seconds counted up in a count-up phase such as overtime
+    countUp?: boolean; // work session with no fixed end (flowtime)
+    adjustedTime?: number; // net seconds added to (or removed from) the current phase by hand
+    sequenceIndex?: number; // step of the custom phase sequence last started, kept to find the next one
+    sequenceStep?: PhaseDefinition; // step of the custom phase sequence being run, if any
+    workspace?: WorkspaceAttribution; // project the current and following phases are credited to
+    label?: string; // what the current and following work sessions are for, e.g. "Fix login race"
+    focusLosses?: number; // times the user left VS Code during the current work session
+    timeAway?: number; // seconds spent outside VS Code during the current work session, not counting an ongoing absence
+    awaySince?: Date; // when the user left VS Code, while away during a work session
+    breakViolations?: number; // times the user kept working during the current rest period or long break
+    interruptions?: Interruption[]; // interruptions logged during the current work session, oldest first
 }
 
+/**
+ * The project a phase is credited to: the workspace, and in multi-root workspaces the folder worked in,
+ * with the git branch checked out when the phase started
+ */
+export interface WorkspaceAttribution {
+    workspaceName?: string; // undefined without an open folder or workspace
+    workspaceFolder?: string; // only set in multi-root workspaces
+    branch?: string; // undefined outside a git repository and on a detached HEAD
+}
+
+/**
+ * Kind of interruption in the Pomodoro technique: internal (') when the user turns to something else,
+ * external (-) when someone else demands their attention
+ */
+export type InterruptionType = 'internal' | 'external';
+
+/**
+ * An interruption logged during a work session
+ */
+export interface Interruption {
+    type: InterruptionType;
+    note?: string; // e.g. "Call from support"
+    loggedAt: number; // ms since epoch
+}
+
+/**
+ * How a step of a custom phase sequence behaves: work counts as focus time, the others are breaks
+ */
+export type PhaseKind = 'work' | 'rest' | 'longBreak';
+
+/**
+ * Chime played when a step of a custom phase sequence ends
+ */
+export type PhaseSound = 'work' | 'rest' | 'none';
+
+/**
+ * One step of a custom phase sequence, e.g. "Planning", 50 minutes of work
+ */
+export interface PhaseDefinition {
+    name: string;
+    kind: PhaseKind;
+    duration: number; // minutes (1-240)
+    color?: string; // hex color or name, defaults to the color of its kind
+    icon?: string; // shown instead of the status dot
+    sound?: PhaseSound; // defaults to the chime of its kind
+}
+
+export type RestoreOnStartupMode = 'never' | 'always' | 'ask';
+
+export type TimerMode = 'pomodoro' | 'flowtime';
+
+/**
+ * Named set of durations to switch between, e.g. 52/17 for deep work
+ */
+export interface TimerPreset {
+    name: string;
+    sessionDuration: number; // minutes (1-120)
+    restDuration: number; // minutes (1-60)
+    longBreakDuration?: number; // minutes (1-60), the setting applies if omitted
+    longBreakInterval?: number; // work sessions per long break (1-12), the setting applies if omitted
+}
+
+/**
+ * What happens when the user goes idle during a work session: nothing, or a pause that ends
+ * on its own or with a prompt when they come back
+ */
+export type IdleDetectionMode = 'off' | 'autoResume' | 'prompt';
+
+/**
+ * How firmly breaks are kept: not at all, with a warning on every edit, or with a break screen
+ * that only an explicit skip dismisses
+ */
+export type BreakEnforcementMode = 'off' | 'remind' | 'strict';
+
+/**
+ * How the workbench is cleared of distractions during work sessions
+ */
+export type DoNotDisturbMode = 'off' | 'zenMode' | 'hidePanels';
+
+/**
+ * A part of the workbench that do not disturb can hide
+ */
+export type DoNotDisturbPanel = 'sideBar' | 'panel' | 'auxiliaryBar';
+
+/**
+ * What is known about the workbench before do not disturb changes it; anything left undefined could not be read
+ */
+export interface WorkbenchState {
+    zenMode?: boolean;
+    notificationsSilenced?: boolean;
+    visiblePanels?: DoNotDisturbPanel[];
+}
+
+/**
+ * Whether switching presets stretches the running phase or leaves it to finish as planned
+ */
+export type PresetRunningPhaseMode = 'adjust' | 'keep';
+
 export interface ExtensionConfig {
     sessionDuration: number; // minutes (1-120)
     restDuration: number; // minutes (1-60)
+    longBreakDuration: number; // minutes (1-60)
+    longBreakInterval: number; // work sessions per long break (1-12)
     workSessionColor: string; // hex color or name
     restPeriodColor: string; // hex color or name
+    longBreakColor: string; // hex color or name
     soundEnabled: boolean;
     showCountdown: boolean;
     showStatusDot: boolean;
@@ -30,22 +151,94 @@ export interface ExtensionConfig {
     autoStartWork: boolean;
     showPausePlayButton: boolean;
     autoStartOnOpen: boolean;
+    restoreOnStartup: RestoreOnStartupMode;
+    overtimeEnabled: boolean;
+    timerMode: TimerMode;
+    flowtimeBreakRatio: number; // minutes of work per minute of break (1-20)
+    flowtimeMinBreak: number; // minutes (1-60)
+    flowtimeMaxBreak: number; // minutes (1-60)
+    timeAdjustmentStep: number; // minutes added or subtracted by the time adjustment commands (1-60)
+    phaseSequence: PhaseDefinition[]; // custom steps run in order instead of work and rest (empty disables)
+    presets: TimerPreset[]; // user-defined presets, in addition to the built-in ones
+    activePreset: string; // name of the preset whose durations apply (empty uses the duration settings)
+    presetRunningPhase: PresetRunningPhaseMode; // whether switching presets changes the running phase
+    idleDetection: IdleDetectionMode;
+    idleThreshold: number; // minutes without activity before a work session pauses (1-60)
+    awayReminder: number; // minutes away from VS Code during a work session before a reminder (0-120, 0 disables)
+    breakEnforcement: BreakEnforcementMode;
+    doNotDisturb: DoNotDisturbMode;
+    doNotDisturbPanels: DoNotDisturbPanel[]; // parts hidden in hidePanels mode and shown again afterwards
+    doNotDisturbNotifications: boolean; // whether to silence notifications during work sessions
+    askForSessionLabel: boolean; // whether starting a work session asks what it is for
+    commitTrailer: boolean; // whether commit messages get a Focus-Sessions trailer
+    voidOnExternalInterruption: boolean; // whether an external interruption voids the work session
+    dailySessionGoal: number; // completed work sessions per day (0-24, 0 disables)
+    weeklyFocusGoal: number; // hours of focus per week (0-80, 0 disables)
 }
 
+/**
+ * Settings that decide what follows a work session, also one that ran out while VS Code was closed
+ */
+export type BreakTransition = Pick<ExtensionConfig, 'autoStartRest' | 'longBreakInterval' | 'overtimeEnabled'>;
+
 export interface PersistedState {
     currentState: TimerState;
     remainingTime: number; // in seconds
+    pausedFrom?: TimerState;
+    idlePaused?: boolean;
+    pausedAt?: Date;
     sessionStartTime?: Date;
+    phaseEndTime?: Date;
+    plannedDuration?: number; // in seconds
+    pausedTime?: number; // in seconds
+    countUp?: boolean;
+    adjustedTime?: number; // in seconds
+    sequenceIndex?: number;
+    sequenceStep?: PhaseDefinition;
+    workspace?: WorkspaceAttribution;
+    label?: string;
+    focusLosses?: number;
+    timeAway?: number; // in seconds, an ongoing absence is not kept
+    breakViolations?: number;
+    interruptions?: Interruption[];
     lastActiveTime: Date;
     sessionCount: number;
     totalWorkTime: number; // in seconds
+    totalOvertime?: number; // in seconds
     sessionDuration: number; // in minutes
     restDuration: number; // in minutes
+    longBreakDuration?: number; // in minutes
+}
+
+/**
+ * A task of the day's plan, with the work sessions it was expected to take and has taken
+ */
+export interface Task {
+    id: string;
+    title: string;
+    estimate: number; // work sessions (pomodoros) it is expected to take, 0 if not estimated
+    actual: number; // completed work sessions credited to it
+    createdAt: number; // ms since epoch
+    completedAt?: number; // ms since epoch, once done
+}
+
+/**
+ * How the work sessions a task has taken compare to its estimate
+ */
+export type EstimateStatus = 'unestimated' | 'under' | 'met' | 'over';
+
+/**
+ * The task list, persisted alongside the timer state
+ */
+export interface PersistedTasks {
+    tasks: Task[]; // in the order planned
+    activeTaskId?: string; // open task that completed work sessions are credited to
 }
 
 export interface ThemeColors {
     workSessionColor: string;
     restPeriodColor: string;
+    longBreakColor?: string;
 }
 
 export interface VisibilityOptions {
@@ -58,4 +251,183 @@ export interface TimerEventData {
     state: TimerState;
     remainingTime: number;
     isTransition?: boolean;
+    duration?: number; // seconds spent in a completed phase, excluding pauses
+    countUp?: boolean; // the completed phase was a count-up work session
+    skipped?: boolean; // the completed phase was ended early by the user
+    sequenceStep?: PhaseDefinition; // the completed step of a custom phase sequence
+}
+
+/**
+ * How a phase in the session history ended
+ */
+export type PhaseStatus = 'completed' | 'skipped' | 'reset' | 'void'; // void: ended by an external interruption
+
+/**
+ * A single work session, rest period or long break in the session history
+ */
+export interface HistoryEntry {
+    phase: TimerState;
+    status: PhaseStatus;
+    startTime: Date;
+    endTime: Date;
+    plannedDuration: number; // in seconds
+    actualDuration: number; // in seconds, excluding pauses
+    pausedTime: number; // in seconds
+    adjustedTime?: number; // in seconds added (or removed, if negative) by hand, already part of the planned duration
+    phaseName?: string; // name of the custom sequence step
+    workspaceName?: string;
+    workspaceFolder?: string; // folder of a multi-root workspace
+    label?: string; // what a work session was for
+    branch?: string; // git branch checked out when the phase started
+    commits?: SessionCommit[]; // commits made during a work session, oldest first
+    focusLosses?: number; // times VS Code lost focus during a work session
+    timeAway?: number; // in seconds spent outside VS Code during a work session
+    breakViolations?: number; // edits or attempts to leave the break screen during a break
+    interruptions?: Interruption[]; // interruptions logged during a work session, oldest first
+}
+
+/**
+ * A git commit made during a work session
+ */
+export interface SessionCommit {
+    hash: string;
+    message: string; // first line only
+    repository: string; // name of the repository folder
+    committedAt: number; // ms since epoch
+}
+
+/**
+ * Interruptions logged during the work sessions of a span of history
+ */
+export interface InterruptionStatistics {
+    workSessions: number;
+    interruptedSessions: number; // work sessions with at least one interruption
+    voidedSessions: number; // work sessions voided by an external interruption
+    internal: number;
+    external: number;
+}
+
+/**
+ * Criteria for querying the session history
+ */
+export interface HistoryFilter {
+    from?: Date; // inclusive, matched against the start time
+    to?: Date; // exclusive, matched against the start time
+    phase?: TimerState;
+    status?: PhaseStatus;
+    workspaceName?: string;
+    project?: string; // workspace folder, or else workspace name, as used for per-project statistics
+}
+
+/**
+ * Focus time on a single calendar day
+ */
+export interface DailyFocus {
+    date: string; // local date as YYYY-MM-DD
+    focusTime: number; // in seconds
+    sessions: number; // completed work sessions
+}
+
+/**
+ * Aggregated statistics shown on the dashboard
+ */
+export interface DashboardStatistics {
+    todaySessions: number; // completed work sessions today
+    todayFocusTime: number; // in seconds
+    weekFocusTime: number; // in seconds, since Monday
+    completedSessions: number;
+    abandonedSessions: number;
+    averageSessionLength: number; // in seconds, over completed work sessions
+    currentStreak: number; // consecutive days meeting the daily session goal
+    dailyFocus: DailyFocus[]; // oldest first, ending today
+    weekPhaseTotals: PhaseTotal[]; // time per phase name since Monday, longest first
+    projectTotals: FocusTotal[]; // focus time per project, most focused this week first
+    labelTotals: FocusTotal[]; // focus time per session label, most focused this week first
+    weekBreakViolations: number; // times breaks were not kept since Monday
+}
+
+/**
+ * Time spent in phases of one name, e.g. all "Planning" steps of a week
+ */
+export interface PhaseTotal {
+    name: string;
+    phase: TimerState;
+    time: number; // in seconds, excluding pauses
+    count: number;
+}
+
+/**
+ * Focus time credited to one project (workspace or multi-root workspace folder) or session label
+ */
+export interface FocusTotal {
+    name: string;
+    todayFocusTime: number; // in seconds
+    weekFocusTime: number; // in seconds, since Monday
+    totalFocusTime: number; // in seconds, over the whole history
+    completedSessions: number;
+}
+
+/**
+ * Progress towards the daily and weekly goals, shown in the status bar
+ */
+export interface GoalProgress {
+    todaySessions: number;
+    dailySessionGoal: number; // 0 when disabled
+    weekFocusTime: number; // in seconds
+    weeklyFocusGoal: number; // in hours, 0 when disabled
+    streak: number; // consecutive days meeting the daily session goal
+}
+
+/**
+ * Timer commands that any window can issue against the shared timer
+ */
+export type TimerCommand = 'startSession' | 'startRest' | 'startLongBreak' | 'takeBreak' | 'pause' | 'resume' | 'reset' |
+    'addTime' | 'subtractTime' | 'setRemainingTime' | 'skip' | 'breakViolation' | 'setLabel' |
+    'internalInterruption' | 'externalInterruption';
+
+/**
+ * Lease held by the window that owns the shared timer
+ */
+export interface LeaderLease {
+    windowId: string;
+    heartbeat: number; // ms since epoch
+}
+
+/**
+ * Whether a VS Code window has focus, as last reported by any window
+ */
+export interface SharedFocusState {
+    windowId: string;
+    focused: boolean;
+    changedAt: number; // ms since epoch
+}
+
+/**
+ * Message passed between windows through global state
+ */
+export interface WindowMessage {
+    id: string;
+    windowId: string;
+    type: string;
+    argument?: number; // e.g. the seconds of a time adjustment
+    workspace?: WorkspaceAttribution; // project of the window that issued a command
+    text?: string; // label of a session started or relabeled by a command (empty to remove it), or note of an interruption
+    issuedAt: number; // ms since epoch
+}
+
+/**
+ * Handle returned by a Clock when scheduling a callback
+ */
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Source of the current time and scheduler for timer callbacks
+ * The extension uses real time; tests substitute a virtual clock
+ */
+export interface Clock {
+    now(): Date;
+    setInterval(callback: () => void, ms: number): TimerHandle;
+    clearInterval(handle: TimerHandle): void;
+    setTimeout(callback: () => void, ms: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
 }
\ No newline at end of file
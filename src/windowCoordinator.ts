@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Clock, LeaderLease, TimerCommand, TimerHandle, WindowMessage, WorkspaceAttribution } from './types';
+import { SystemClock } from './clock';
+
+/**
+ * Coordinates the timer across multiple VS Code windows
+ * Windows elect a leader through a heartbeat lease in global state: the leader
+ * owns the countdown, followers mirror it and forward their commands to it
+ *
+ * Events:
+ * - 'leadershipChange' (isLeader: boolean) when this window gains or loses leadership
+ * - 'command' (command: TimerCommand, argument?: number, workspace?: WorkspaceAttribution, text?: string)
+ *   on the leader, for commands issued by followers
+ * - 'notification' (type: string) on followers, for events broadcast by the leader
+ * - 'sync' on followers after every poll, to refresh the mirrored timer
+ */
+export class WindowCoordinator extends EventEmitter {
+    private static readonly LEASE_KEY = 'workSessionManager.leader';
+    private static readonly BROADCAST_KEY = 'workSessionManager.broadcast';
+    private static readonly COMMAND_KEY_PREFIX = 'workSessionManager.commands.';
+    private static readonly HANDLED_KEY = 'workSessionManager.handledCommands';
+    private static readonly POLL_INTERVAL = 1000; // 1 second
+    private static readonly LEASE_TIMEOUT = 5000; // lease expires after 5 missed heartbeats
+    private static readonly MESSAGE_TTL = 10000; // messages older than this are ignored
+
+    private context: vscode.ExtensionContext;
+    private clock: Clock;
+    private readonly windowId: string;
+    private leader: boolean = false;
+    private intervalId: TimerHandle | null = null;
+    private polling: boolean = false;
+    private messageCount: number = 0;
+    private lastBroadcastId: string | undefined;
+
+    constructor(context: vscode.ExtensionContext, clock: Clock = new SystemClock()) {
+        super();
+        this.context = context;
+        this.clock = clock;
+        this.windowId = randomBytes(8).toString('hex');
+    }
+
+    /**
+     * Determines the initial leadership and starts polling
+     * Leadership changes after this point are reported through 'leadershipChange'
+     */
+    public async start(): Promise<void> {
+        this.lastBroadcastId = this.context.globalState.get<WindowMessage>(WindowCoordinator.BROADCAST_KEY)?.id;
+        this.leader = await this.tryClaimLease();
+        if (this.leader) {
+            await this.removeStaleCommands();
+        }
+
+        if (!this.intervalId) {
+            this.intervalId = this.clock.setInterval(() => {
+                this.poll();
+            }, WindowCoordinator.POLL_INTERVAL);
+        }
+    }
+
+    /**
+     * Checks if this window owns the shared timer
+     */
+    public isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Gets the identifier of this window
+     */
+    public getWindowId(): string {
+        return this.windowId;
+    }
+
+    /**
+     * Forwards a timer command, with its argument, the project it was issued in and its text if any, such as
+     * a session label or the note of an interruption, to the leader window
+     */
+    public async sendCommand(
+        command: TimerCommand,
+        argument?: number,
+        workspace?: WorkspaceAttribution,
+        text?: string
+    ): Promise<void> {
+        const key = WindowCoordinator.COMMAND_KEY_PREFIX + this.windowId;
+        const pending = this.context.globalState.get<WindowMessage[]>(key, [])
+            .filter(message => this.isRecent(message));
+
+        pending.push(this.createMessage(command, argument, workspace, text));
+        await this.context.globalState.update(key, pending);
+    }
+
+    /**
+     * Notifies follower windows of an event on the shared timer
+     */
+    public async broadcast(type: string): Promise<void> {
+        if (!this.leader) {
+            return;
+        }
+
+        const message = this.createMessage(type);
+        this.lastBroadcastId = message.id;
+        await this.context.globalState.update(WindowCoordinator.BROADCAST_KEY, message);
+    }
+
+    /**
+     * Renews or contests the lease, then exchanges messages for the current role
+     */
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const wasLeader = this.leader;
+            this.leader = await this.tryClaimLease();
+
+            if (this.leader !== wasLeader) {
+                if (this.leader) {
+                    await this.removeStaleCommands();
+                }
+                this.emit('leadershipChange', this.leader);
+            }
+
+            if (this.leader) {
+                await this.processCommands();
+            } else {
+                this.processBroadcast();
+                this.emit('sync');
+            }
+        } catch (error) {
+            console.warn('Work Session Manager: Failed to coordinate windows:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Takes or renews the lease unless another window holds a live one
+     */
+    private async tryClaimLease(): Promise<boolean> {
+        const lease = this.context.globalState.get<LeaderLease>(WindowCoordinator.LEASE_KEY);
+        const now = this.clock.now().getTime();
+
+        const heldByOther = lease !== undefined &&
+            lease.windowId !== this.windowId &&
+            now - lease.heartbeat < WindowCoordinator.LEASE_TIMEOUT;
+
+        if (heldByOther) {
+            return false;
+        }
+
+        const renewed: LeaderLease = { windowId: this.windowId, heartbeat: now };
+        await this.context.globalState.update(WindowCoordinator.LEASE_KEY, renewed);
+        return true;
+    }
+
+    /**
+     * Emits commands that followers issued since the last poll
+     * The commands handled are kept in global state, so a window taking over leadership does not run them again
+     */
+    private async processCommands(): Promise<void> {
+        const now = this.clock.now().getTime();
+        const handled = this.context.globalState.get<{ [id: string]: number }>(WindowCoordinator.HANDLED_KEY, {});
+
+        const messages = this.getCommandKeys()
+            .map(key => this.context.globalState.get<WindowMessage[]>(key, []))
+            .reduce((all, list) => all.concat(list), [] as WindowMessage[])
+            .filter(message => this.isRecent(message) && handled[message.id] === undefined)
+            .sort((a, b) => a.issuedAt - b.issuedAt);
+
+        // Forget commands that can no longer be replayed
+        const remaining: { [id: string]: number } = {};
+        for (const [id, issuedAt] of Object.entries(handled)) {
+            if (now - issuedAt < WindowCoordinator.MESSAGE_TTL) {
+                remaining[id] = issuedAt;
+            }
+        }
+        for (const message of messages) {
+            remaining[message.id] = message.issuedAt;
+        }
+
+        if (messages.length > 0 || Object.keys(remaining).length !== Object.keys(handled).length) {
+            await this.context.globalState.update(WindowCoordinator.HANDLED_KEY, remaining);
+        }
+
+        for (const message of messages) {
+            this.emit('command', message.type as TimerCommand, message.argument, message.workspace, message.text);
+        }
+    }
+
+    /**
+     * Removes the command keys of windows with no command left to handle, such as windows that crashed
+     */
+    private async removeStaleCommands(): Promise<void> {
+        for (const key of this.getCommandKeys()) {
+            const pending = this.context.globalState.get<WindowMessage[]>(key, []);
+            if (!pending.some(message => this.isRecent(message))) {
+                await this.context.globalState.update(key, undefined);
+            }
+        }
+    }
+
+    /**
+     * Gets the keys under which windows leave their commands for the leader
+     */
+    private getCommandKeys(): string[] {
+        return this.context.globalState.keys()
+            .filter(key => key.startsWith(WindowCoordinator.COMMAND_KEY_PREFIX));
+    }
+
+    /**
+     * Emits the leader's latest broadcast if it has not been seen yet
+     */
+    private processBroadcast(): void {
+        const message = this.context.globalState.get<WindowMessage>(WindowCoordinator.BROADCAST_KEY);
+
+        if (message && message.id !== this.lastBroadcastId) {
+            this.lastBroadcastId = message.id;
+            if (this.isRecent(message)) {
+                this.emit('notification', message.type);
+            }
+        }
+    }
+
+    /**
+     * Creates a message originating from this window
+     */
+    private createMessage(type: string, argument?: number, workspace?: WorkspaceAttribution, text?: string): WindowMessage {
+        return {
+            id: `${this.windowId}-${++this.messageCount}`,
+            windowId: this.windowId,
+            type,
+            argument,
+            workspace,
+            text,
+            issuedAt: this.clock.now().getTime()
+        };
+    }
+
+    /**
+     * Checks if a message is still within its time to live
+     */
+    private isRecent(message: WindowMessage): boolean {
+        return this.clock.now().getTime() - message.issuedAt < WindowCoordinator.MESSAGE_TTL;
+    }
+
+    /**
+     * Stops polling and hands leadership over to another window
+     */
+    public async dispose(): Promise<void> {
+        if (this.intervalId) {
+            this.clock.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+
+        const lease = this.context.globalState.get<LeaderLease>(WindowCoordinator.LEASE_KEY);
+        if (this.leader && lease?.windowId === this.windowId) {
+            await this.context.globalState.update(WindowCoordinator.LEASE_KEY, undefined);
+        }
+        await this.context.globalState.update(WindowCoordinator.COMMAND_KEY_PREFIX + this.windowId, undefined);
+
+        this.leader = false;
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file